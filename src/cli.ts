@@ -0,0 +1,239 @@
+#!/usr/bin/env node
+import * as fs from 'fs';
+import * as path from 'path';
+import { generateClient } from './codegen';
+import { diffDocuments } from './diff';
+import { DocumentChange } from './types';
+
+const USAGE = `Usage:
+  plus-express generate-client --entry <file> --out <path> [options]
+  plus-express diff <old> <new> [--json]
+
+generate-client options:
+  --entry <file>     Module exporting the registry (or the result of plus()), e.g. ./src/app.ts
+  --out <path>       Directory to write index.ts to, or a .ts file
+  --export <name>    Name of the export holding the registry (default: registry, then default)
+  --openapi <ver>    OpenAPI version of the document the client is generated from
+
+diff arguments:
+  <old>, <new>       OpenAPI documents (.json), or modules exporting a registry
+  --json             Print the changes as JSON
+
+Exit codes:
+  0                  Success, and no breaking changes for diff
+  1                  diff found breaking changes
+  2                  Invalid arguments, or the command failed`;
+
+// Exit code of invalid arguments and failed commands, distinct from diff's breaking changes
+const EXIT_ERROR = 2;
+
+// Options of the generate-client command
+interface GenerateClientArgs {
+  entry: string;
+  out: string;
+  exportName?: string;
+  openapi?: string;
+}
+
+/**
+ * Parse the arguments of a command into option values and positional arguments
+ *
+ * @param args The arguments after the command
+ * @param names Options taking a value
+ * @param flags Options without a value
+ * @returns The values by option name (flags are 'true') and the positional arguments
+ * @throws Error on unknown options or missing values
+ */
+function parseOptions(
+  args: string[],
+  names: string[],
+  flags: string[] = []
+): { values: Record<string, string>; positionals: string[] } {
+  const values: Record<string, string> = {};
+  const positionals: string[] = [];
+
+  for (let index = 0; index < args.length; index++) {
+    const match = /^--([a-z]+)(?:=(.*))?$/.exec(args[index]);
+    if (!match) {
+      positionals.push(args[index]);
+      continue;
+    }
+    if (!names.includes(match[1]) && !flags.includes(match[1])) {
+      throw new Error(`Unknown option --${match[1]}`);
+    }
+    if (flags.includes(match[1])) {
+      values[match[1]] = 'true';
+      continue;
+    }
+
+    const value = match[2] !== undefined ? match[2] : args[++index];
+    if (value === undefined) {
+      throw new Error(`Missing value for --${match[1]}`);
+    }
+    values[match[1]] = value;
+  }
+
+  return { values, positionals };
+}
+
+/**
+ * Parse the arguments of the generate-client command
+ */
+function parseGenerateClientArgs(args: string[]): GenerateClientArgs {
+  const { values, positionals } = parseOptions(args, ['entry', 'out', 'export', 'openapi']);
+
+  if (positionals.length > 0) {
+    throw new Error(`Unexpected argument ${positionals[0]}`);
+  }
+  if (!values.entry || !values.out) {
+    throw new Error('Both --entry and --out are required');
+  }
+
+  return { entry: values.entry, out: values.out, exportName: values.export, openapi: values.openapi };
+}
+
+/**
+ * Load the entry module and find its registry
+ *
+ * TypeScript entries are loaded through tsx. The registry may be exported directly or as
+ * the `registry` property of an export (such as the result of plus()).
+ */
+function loadRegistry(entry: string, exportName?: string): any {
+  const entryPath = path.resolve(entry);
+  if (/\.[cm]?tsx?$/.test(entryPath)) {
+    require('tsx/cjs/api').register();
+  }
+
+  const exports = require(entryPath);
+  const names = exportName ? [exportName] : ['registry', 'default'];
+
+  for (const name of names) {
+    const value = exports[name];
+    const registry = value && typeof value.generateOpenAPIDocument === 'function' ? value :
+      value && value.registry && typeof value.registry.generateOpenAPIDocument === 'function' ? value.registry :
+      undefined;
+    if (registry) {
+      return registry;
+    }
+  }
+
+  throw new Error(`${entry} has no ${names.join(' or ')} export holding a registry`);
+}
+
+/**
+ * Read a document from a JSON file, or generate it from a module exporting a registry
+ */
+function loadDocument(file: string): any {
+  if (!/\.json$/i.test(file)) {
+    return loadRegistry(file).generateOpenAPIDocument();
+  }
+
+  try {
+    return JSON.parse(fs.readFileSync(path.resolve(file), 'utf8'));
+  } catch (error: any) {
+    throw new Error(`Cannot read ${file}: ${error.message}`);
+  }
+}
+
+/**
+ * Format a change as a line of text
+ */
+function formatChange(change: DocumentChange): string {
+  const where = [change.operation, change.location, change.path].filter(Boolean).join(' ');
+  return `  ${where}: ${change.message} [${change.code}]`;
+}
+
+/**
+ * Run the generate-client command
+ */
+function runGenerateClient(args: string[]): number {
+  let options: GenerateClientArgs;
+  try {
+    options = parseGenerateClientArgs(args);
+  } catch (error: any) {
+    console.error(`${error.message}\n\n${USAGE}`);
+    return EXIT_ERROR;
+  }
+
+  try {
+    const registry = loadRegistry(options.entry, options.exportName);
+    const document = registry.generateOpenAPIDocument(options.openapi ? { openapi: options.openapi } : {});
+
+    const outPath = path.resolve(/\.ts$/.test(options.out) ? options.out : path.join(options.out, 'index.ts'));
+    fs.mkdirSync(path.dirname(outPath), { recursive: true });
+    fs.writeFileSync(outPath, generateClient(document, { onWarning: (message) => console.warn(message) }));
+
+    console.log(`Wrote ${path.relative(process.cwd(), outPath)}`);
+    return 0;
+  } catch (error: any) {
+    console.error(error.message);
+    return EXIT_ERROR;
+  }
+}
+
+/**
+ * Run the diff command
+ */
+function runDiff(args: string[]): number {
+  let parsed: { values: Record<string, string>; positionals: string[] };
+  try {
+    parsed = parseOptions(args, [], ['json']);
+    if (parsed.positionals.length !== 2) {
+      throw new Error('diff needs the old and the new document');
+    }
+  } catch (error: any) {
+    console.error(`${error.message}\n\n${USAGE}`);
+    return EXIT_ERROR;
+  }
+
+  try {
+    const [oldFile, newFile] = parsed.positionals;
+    const diff = diffDocuments(loadDocument(oldFile), loadDocument(newFile));
+
+    if (parsed.values.json) {
+      console.log(JSON.stringify(diff, null, 2));
+    } else {
+      console.log(`${diff.breaking.length} breaking, ${diff.nonBreaking.length} non-breaking changes`);
+      if (diff.breaking.length > 0) {
+        console.log(['\nBreaking:', ...diff.breaking.map(formatChange)].join('\n'));
+      }
+      if (diff.nonBreaking.length > 0) {
+        console.log(['\nNon-breaking:', ...diff.nonBreaking.map(formatChange)].join('\n'));
+      }
+    }
+
+    return diff.breaking.length > 0 ? 1 : 0;
+  } catch (error: any) {
+    console.error(error.message);
+    return EXIT_ERROR;
+  }
+}
+
+/**
+ * Run the CLI
+ *
+ * @param argv The arguments after the executable and script
+ * @returns The exit code
+ */
+export function main(argv: string[]): number {
+  const [command, ...args] = argv;
+
+  if (!command || command === '--help' || command === '-h') {
+    console.log(USAGE);
+    return command ? 0 : EXIT_ERROR;
+  }
+  if (command === 'generate-client') {
+    return runGenerateClient(args);
+  }
+  if (command === 'diff') {
+    return runDiff(args);
+  }
+
+  console.error(`Unknown command ${command}\n\n${USAGE}`);
+  return EXIT_ERROR;
+}
+
+if (require.main === module) {
+  // Exit even when the entry started a server or timers
+  process.exit(main(process.argv.slice(2)));
+}
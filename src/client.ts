@@ -0,0 +1,202 @@
+import type { Client, ClientOptions, HttpMethod } from './route-types';
+import { parseExpressPath, PathToken } from './paths';
+import { DOCUMENT_METHODS, isJsonContentType, toQueryValue } from './openapi';
+
+// This module is the plus-express/client entry point: it must not import Express or types.ts
+export type { Client, ClientOptions, ClientInput, ClientMethod, ClientResponse } from './route-types';
+
+// Keys naming a route by method and path, e.g. 'GET /users/:id'
+const ROUTE_KEY = /^(GET|POST|PUT|DELETE|PATCH|OPTIONS|HEAD) (\/.*)$/;
+
+// A route resolved from a client key
+interface ClientRoute {
+  method: HttpMethod;
+  path: string;
+  template: 'express' | 'openapi'; // Syntax of the path
+}
+
+/**
+ * Encode a path param value (wildcard values may be arrays, or contain /)
+ */
+function encodePathValue(value: unknown): string {
+  const segments = Array.isArray(value) ? value : String(value).split('/');
+  return segments.map((segment) => encodeURIComponent(String(segment))).join('/');
+}
+
+/**
+ * Fill the params into an Express path, leaving out optional groups whose params are missing
+ *
+ * @param path The Express path
+ * @param params The param values
+ * @returns The path to request
+ * @throws Error when a param outside an optional group is missing
+ */
+export function fillExpressPath(path: string, params: Record<string, unknown>): string {
+  function render(tokens: PathToken[], optional: boolean): string | undefined {
+    let result = '';
+
+    for (const token of tokens) {
+      if (token.type === 'text') {
+        result += token.value;
+      } else if (token.type === 'group') {
+        result += render(token.tokens, true) || '';
+      } else if (params[token.name] === undefined) {
+        if (optional) {
+          return undefined;
+        }
+        throw new Error(`Missing path parameter ${token.name} for ${path}`);
+      } else {
+        result += encodePathValue(params[token.name]);
+      }
+    }
+    return result;
+  }
+
+  return render(parseExpressPath(path), false) as string;
+}
+
+/**
+ * Fill the params into an OpenAPI path such as /users/{id}
+ */
+function fillOpenApiPath(path: string, params: Record<string, unknown>): string {
+  return path.replace(/\{([^{}]+)\}/g, (match, name: string) => {
+    if (params[name] === undefined) {
+      throw new Error(`Missing path parameter ${name} for ${path}`);
+    }
+    return encodePathValue(params[name]);
+  });
+}
+
+/**
+ * Check whether a body is sent as-is rather than as JSON
+ */
+function isRawBody(body: unknown): boolean {
+  return typeof body === 'string' ||
+    body instanceof ArrayBuffer ||
+    ArrayBuffer.isView(body) ||
+    (typeof URLSearchParams !== 'undefined' && body instanceof URLSearchParams) ||
+    (typeof FormData !== 'undefined' && body instanceof FormData) ||
+    (typeof Blob !== 'undefined' && body instanceof Blob);
+}
+
+/**
+ * Find the route of an operationId in an OpenAPI document
+ */
+function findOperation(document: any, operationId: string): ClientRoute | undefined {
+  for (const [path, pathItem] of Object.entries<any>((document && document.paths) || {})) {
+    const method = DOCUMENT_METHODS.find((candidate) => pathItem[candidate] && pathItem[candidate].operationId === operationId);
+    if (method) {
+      return { method, path, template: 'openapi' };
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Create a typed HTTP client for the routes of an app or router
+ *
+ * Routes are called by `'METHOD /path'` (as registered, with Express params) or by operationId.
+ * Calling by operationId needs the generated OpenAPI document or the contract, since the type
+ * alone does not say where an operation lives. Responses are returned for every status rather than thrown.
+ *
+ * @param baseUrl The URL the app is served at, e.g. https://api.example.com
+ * @param fetchImpl The fetch implementation (defaults to the global fetch)
+ * @param options The OpenAPI document or contract for operationId calls, and headers sent with every request
+ * @returns The client
+ */
+export function createClient<TApi>(
+  baseUrl: string,
+  fetchImpl?: typeof fetch,
+  options: ClientOptions = {}
+): Client<TApi> {
+  const root = baseUrl.replace(/\/+$/, '');
+
+  // Contract endpoints by the name they are called with: their operationId, else their key
+  const endpoints = new Map(Object.entries(options.contract || {}).map(([name, endpoint]) =>
+    [endpoint.operationId || name, endpoint] as const));
+
+  async function call(key: string, route: ClientRoute, input: any = {}): Promise<any> {
+    const { params = {}, query, body, headers = {}, init = {} } = input;
+    const fetchFn = fetchImpl || globalThis.fetch;
+    if (!fetchFn) {
+      throw new Error('No fetch implementation is available, pass one to createClient');
+    }
+
+    const path = route.template === 'express' ? fillExpressPath(route.path, params) : fillOpenApiPath(route.path, params);
+
+    const search = new URLSearchParams();
+    Object.entries<unknown>(query || {}).forEach(([name, value]) => {
+      if (value === undefined) {
+        return;
+      }
+      (Array.isArray(value) ? value : [value]).forEach((item) => search.append(name, toQueryValue(item)));
+    });
+    const queryString = search.toString();
+
+    const requestHeaders: Record<string, string> = { ...options.headers };
+    Object.entries<unknown>(headers).forEach(([name, value]) => {
+      if (value !== undefined) {
+        requestHeaders[name.toLowerCase()] = String(value);
+      }
+    });
+
+    let requestBody: any;
+    if (body !== undefined) {
+      if (isRawBody(body)) {
+        requestBody = body;
+      } else {
+        requestBody = JSON.stringify(body);
+        requestHeaders['content-type'] = requestHeaders['content-type'] || 'application/json';
+      }
+    }
+
+    const response = await fetchFn(`${root}${path}${queryString ? `?${queryString}` : ''}`, {
+      ...init,
+      method: route.method.toUpperCase(),
+      headers: { ...requestHeaders, ...(init.headers as Record<string, string>) },
+      body: requestBody
+    });
+
+    // JSON payloads are parsed, others are returned as text (undefined when empty)
+    let data: unknown;
+    const contentType = response.headers.get('content-type') || '';
+    if (route.method !== 'head' && response.status !== 204 && response.status !== 205) {
+      const text = await response.text();
+      if (text) {
+        try {
+          data = isJsonContentType(contentType) ? JSON.parse(text) : text;
+        } catch (error: any) {
+          throw new Error(`Invalid JSON in the response of ${key}: ${error.message}`);
+        }
+      }
+    }
+
+    return { status: response.status, ok: response.ok, headers: response.headers, data };
+  }
+
+  return new Proxy({}, {
+    get(target, key) {
+      // Not a promise, and no symbol-keyed members
+      if (typeof key !== 'string' || key === 'then') {
+        return undefined;
+      }
+
+      return (input?: any) => {
+        const match = ROUTE_KEY.exec(key);
+        const endpoint = endpoints.get(key);
+        const route = match ?
+          { method: match[1].toLowerCase() as HttpMethod, path: match[2], template: 'express' as const } :
+          endpoint ?
+            { method: endpoint.method, path: endpoint.path, template: 'express' as const } :
+            findOperation(options.document, key);
+
+        if (!route) {
+          return Promise.reject(new Error(options.document || options.contract ?
+            `Unknown operationId ${key}: it is not in the ${options.document ? 'OpenAPI document' : 'contract'}` :
+            `Cannot call ${key}: pass the OpenAPI document or contract to createClient to call routes by name`));
+        }
+        return call(key, route, input);
+      };
+    }
+  }) as Client<TApi>;
+}
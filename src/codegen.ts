@@ -0,0 +1,433 @@
+/**
+ * Generation of a standalone TypeScript client from an OpenAPI document
+ *
+ * The output has no imports: component schemas become interfaces or type aliases, and every
+ * operation with an operationId becomes a function calling fetch. Names, properties and
+ * operations are sorted, so the same document always produces the same file.
+ */
+import { DOCUMENT_METHODS, dereference, mergeParameters } from './openapi';
+
+// Words reserved in TypeScript, which cannot name a function
+const RESERVED_WORDS = new Set([
+  'break', 'case', 'catch', 'class', 'const', 'continue', 'debugger', 'default', 'delete', 'do', 'else',
+  'enum', 'export', 'extends', 'false', 'finally', 'for', 'function', 'if', 'import', 'in', 'instanceof',
+  'new', 'null', 'return', 'super', 'switch', 'this', 'throw', 'true', 'try', 'typeof', 'var', 'void',
+  'while', 'with', 'implements', 'interface', 'let', 'package', 'private', 'protected', 'public', 'static',
+  'yield', 'await'
+]);
+
+// Type names the generated code refers to, which components must not shadow
+const RESERVED_TYPE_NAMES = new Set(['ClientConfig', 'ClientResult', 'Array', 'BodyInit', 'Headers', 'Promise', 'Record', 'RequestInit']);
+
+// Globals the generated functions call, which operations must not shadow
+const RESERVED_VALUE_NAMES = new Set(['encodeURIComponent', 'fetch']);
+
+// Helpers emitted once at the top of every generated client (the private ones are prefixed
+// with __, which generated names never are)
+const RUNTIME = `export interface ClientConfig {
+  baseUrl: string;
+  fetch?: typeof fetch; // Defaults to the global fetch
+  headers?: Record<string, string>; // Sent with every request
+  init?: RequestInit; // Passed to every fetch call
+}
+
+export interface ClientResult<TStatus extends number, TData> {
+  status: TStatus;
+  ok: boolean;
+  headers: Headers;
+  data: TData;
+}
+
+interface __OperationRequest {
+  method: string;
+  path: string;
+  params?: Record<string, unknown>;
+  query?: Record<string, unknown>;
+  headers?: Record<string, unknown>;
+  body?: unknown;
+  json: boolean; // Whether the body is sent as JSON
+}
+
+function __toText(value: unknown): string {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+}
+
+async function __request(config: ClientConfig, operation: __OperationRequest): Promise<any> {
+  const fetchFn = config.fetch || fetch;
+  const params = operation.params || {};
+  const path = operation.path.replace(/\\{([^{}]+)\\}/g, (match, name: string) => encodeURIComponent(__toText(params[name])));
+
+  const search = new URLSearchParams();
+  Object.entries(operation.query || {}).forEach(([name, value]) => {
+    if (value !== undefined) {
+      (Array.isArray(value) ? value : [value]).forEach((item) => search.append(name, __toText(item)));
+    }
+  });
+  const queryString = search.toString();
+
+  const headers: Record<string, string> = { ...config.headers };
+  Object.entries(operation.headers || {}).forEach(([name, value]) => {
+    if (value !== undefined) {
+      headers[name.toLowerCase()] = __toText(value);
+    }
+  });
+  if (operation.body !== undefined && operation.json) {
+    headers['content-type'] = headers['content-type'] || 'application/json';
+  }
+
+  const response = await fetchFn(\`\${config.baseUrl.replace(/\\/+$/, '')}\${path}\${queryString ? \`?\${queryString}\` : ''}\`, {
+    ...config.init,
+    method: operation.method,
+    headers,
+    body: operation.body === undefined ? undefined : operation.json ? JSON.stringify(operation.body) : operation.body as any
+  });
+
+  let data: unknown;
+  if (operation.method !== 'HEAD' && response.status !== 204 && response.status !== 205) {
+    const text = await response.text();
+    if (text) {
+      data = /^application\\/([\\w.-]+\\+)?json\\b/i.test(response.headers.get('content-type') || '') ? JSON.parse(text) : text;
+    }
+  }
+
+  return { status: response.status, ok: response.ok, headers: response.headers, data };
+}`;
+
+// Options for client generation
+export interface GenerateClientOptions {
+  header?: string; // Comment placed at the top, defaults to a do-not-edit notice
+  onWarning?: (message: string) => void; // Told about operations left out of the client
+}
+
+/**
+ * Compare strings by code point, independent of the locale
+ */
+function compare(left: string, right: string): number {
+  return left < right ? -1 : left > right ? 1 : 0;
+}
+
+/**
+ * Convert a name into a PascalCase identifier
+ */
+function toTypeName(name: string): string {
+  const words = name.split(/[^A-Za-z0-9]+/).filter(Boolean);
+  const result = words.map((word) => word[0].toUpperCase() + word.slice(1)).join('');
+  return /^[0-9]/.test(result) || !result ? `T${result}` : result;
+}
+
+/**
+ * Convert an operationId into a function name
+ */
+function toFunctionName(operationId: string): string {
+  const typeName = toTypeName(operationId);
+  const name = typeName[0].toLowerCase() + typeName.slice(1);
+  return RESERVED_WORDS.has(name) || RESERVED_VALUE_NAMES.has(name) ? `${name}Operation` : name;
+}
+
+/**
+ * Convert a component name into a type name, suffixed when it would shadow a type the client uses
+ */
+function toComponentName(name: string): string {
+  const typeName = toTypeName(name);
+  return RESERVED_TYPE_NAMES.has(typeName) ? `${typeName}Schema` : typeName;
+}
+
+/**
+ * Write a property name, quoted unless it is a valid identifier
+ */
+function toPropertyName(name: string): string {
+  return /^[A-Za-z_$][A-Za-z0-9_$]*$/.test(name) ? name : JSON.stringify(name);
+}
+
+/**
+ * Write a comment line, keeping its text from closing the comment
+ */
+function toComment(text: string, indent: string): string {
+  return `${indent}/** ${text.replace(/\*\//g, '*\\/').replace(/\s*\n\s*/g, ' ')} */\n`;
+}
+
+/**
+ * Convert a JSON Schema into a TypeScript type
+ *
+ * @param schema The schema (OpenAPI 3.0 or 3.1)
+ * @param indent The indentation of the line the type starts on
+ * @returns The type
+ */
+export function schemaToType(schema: any, indent = ''): string {
+  if (schema === undefined || schema === true || schema === null) {
+    return 'unknown';
+  }
+  if (schema === false) {
+    return 'never';
+  }
+
+  if (typeof schema.$ref === 'string') {
+    const match = /^#\/components\/schemas\/(.+)$/.exec(schema.$ref);
+    return match ? toComponentName(match[1].replace(/~1/g, '/').replace(/~0/g, '~')) : 'unknown';
+  }
+
+  const type = nonNullType(schema, indent);
+  const nullable = schema.nullable === true || (Array.isArray(schema.type) && schema.type.includes('null'));
+  return nullable && type !== 'null' && type !== 'unknown' ? `${type} | null` : type;
+}
+
+/**
+ * Parenthesize a union or intersection used inside another type
+ */
+function wrap(type: string): string {
+  return /^[^{]*[|&]/.test(type) && !/^\(.*\)$/.test(type) ? `(${type})` : type;
+}
+
+/**
+ * Convert a schema, ignoring whether it is nullable
+ */
+function nonNullType(schema: any, indent: string): string {
+  if (schema.const !== undefined) {
+    return JSON.stringify(schema.const);
+  }
+  if (Array.isArray(schema.enum)) {
+    return schema.enum.map((value: unknown) => JSON.stringify(value)).join(' | ') || 'never';
+  }
+  if (Array.isArray(schema.allOf)) {
+    return schema.allOf.map((part: any) => wrap(schemaToType(part, indent))).join(' & ');
+  }
+  if (Array.isArray(schema.oneOf) || Array.isArray(schema.anyOf)) {
+    return (schema.oneOf || schema.anyOf).map((option: any) => wrap(schemaToType(option, indent))).join(' | ');
+  }
+
+  const types: string[] = Array.isArray(schema.type) ? schema.type.filter((type: string) => type !== 'null') : [schema.type];
+  if (types.length === 0) {
+    return 'null';
+  }
+  return types.map((type) => typeToTs(schema, type, indent)).join(' | ');
+}
+
+/**
+ * Convert one JSON Schema type
+ */
+function typeToTs(schema: any, type: string | undefined, indent: string): string {
+  switch (type) {
+    case 'string':
+      return 'string';
+    case 'integer':
+    case 'number':
+      return 'number';
+    case 'boolean':
+      return 'boolean';
+    case 'null':
+      return 'null';
+    case 'array':
+      return `Array<${schemaToType(schema.items, indent)}>`;
+    case 'object':
+      return objectToTs(schema, indent);
+    default:
+      return schema.properties ? objectToTs(schema, indent) : 'unknown';
+  }
+}
+
+/**
+ * Convert an object schema into an object type literal
+ */
+function objectToTs(schema: any, indent: string): string {
+  const required = new Set<string>(schema.required || []);
+  const names = Object.keys(schema.properties || {}).sort(compare);
+  const additional = schema.additionalProperties;
+
+  if (names.length === 0) {
+    if (additional && typeof additional === 'object') {
+      return `Record<string, ${schemaToType(additional, indent)}>`;
+    }
+    return 'Record<string, unknown>';
+  }
+
+  const inner = `${indent}  `;
+  const lines = names.map((name) => {
+    const property = schema.properties[name];
+    const comment = property && property.description ? toComment(property.description, inner) : '';
+    const optional = required.has(name) ? '' : '?';
+    return `${comment}${inner}${toPropertyName(name)}${optional}: ${schemaToType(property, inner)};\n`;
+  });
+
+  const literal = `{\n${lines.join('')}${indent}}`;
+  if (additional && typeof additional === 'object') {
+    return `${literal} & Record<string, unknown>`;
+  }
+  return literal;
+}
+
+/**
+ * Convert the parameters of one location into an object type, or undefined when there are none
+ */
+function parametersToType(parameters: any[], location: string, indent: string): { type: string; required: boolean } | undefined {
+  const matching = parameters
+    .filter((parameter) => parameter.in === location)
+    .sort((left, right) => compare(left.name, right.name));
+  if (matching.length === 0) {
+    return undefined;
+  }
+
+  const inner = `${indent}  `;
+  const lines = matching.map((parameter) => {
+    const comment = parameter.description ? toComment(parameter.description, inner) : '';
+    // Path params are always required and never null
+    const required = parameter.required || location === 'path';
+    const schema = location === 'path' ? withoutNull(parameter.schema) : parameter.schema;
+    return `${comment}${inner}${toPropertyName(parameter.name)}${required ? '' : '?'}: ${schemaToType(schema, inner)};\n`;
+  });
+
+  return {
+    type: `{\n${lines.join('')}${indent}}`,
+    required: location === 'path' || matching.some((parameter) => parameter.required)
+  };
+}
+
+/**
+ * Remove null from the types a schema allows
+ */
+function withoutNull(schema: any): any {
+  if (!schema || typeof schema !== 'object') {
+    return schema;
+  }
+  const type = Array.isArray(schema.type) ? schema.type.filter((item: string) => item !== 'null') : schema.type;
+  return { ...schema, nullable: undefined, type: Array.isArray(type) && type.length === 1 ? type[0] : type };
+}
+
+/**
+ * Generate the types and function of one operation
+ */
+function generateOperation(document: any, method: string, path: string, pathItem: any, operation: any): string {
+  const name = toFunctionName(operation.operationId);
+  const typeName = toTypeName(operation.operationId);
+
+  const parameters = mergeParameters(document, pathItem, operation);
+
+  const inputLines: string[] = [];
+  const parts: string[] = [];
+  ['path', 'query', 'header'].forEach((location) => {
+    const result = parametersToType(parameters, location, '  ');
+    if (result) {
+      const key = location === 'path' ? 'params' : location === 'header' ? 'headers' : 'query';
+      inputLines.push(`  ${key}${result.required ? '' : '?'}: ${result.type};\n`);
+      parts.push(key);
+    }
+  });
+
+  // JSON is preferred when the operation accepts several content types
+  const requestBody = dereference(document, operation.requestBody);
+  const contentTypes = Object.keys((requestBody && requestBody.content) || {}).sort(compare);
+  const bodyContentType = contentTypes.find((contentType) => /json/i.test(contentType)) || contentTypes[0];
+  if (bodyContentType) {
+    const bodySchema = requestBody.content[bodyContentType].schema;
+    const bodyType = /json/i.test(bodyContentType) ? schemaToType(bodySchema, '  ') : 'BodyInit';
+    inputLines.push(`  body${requestBody.required ? '' : '?'}: ${bodyType};\n`);
+    parts.push('body');
+  }
+
+  // One result per declared status, with the JSON payload when there is one
+  const statuses = Object.keys(operation.responses || {}).sort(compare);
+  const results = statuses.map((status) => {
+    const response = dereference(document, operation.responses[status]) || {};
+    const content = response.content || {};
+    const jsonType = Object.keys(content).sort(compare).find((contentType) => /json/i.test(contentType));
+    const data = jsonType ? schemaToType(content[jsonType].schema, '  ') :
+      Object.keys(content).length > 0 ? 'string' : 'undefined';
+    const statusType = /^\d{3}$/.test(status) ? status : 'number';
+    return `ClientResult<${statusType}, ${data}>`;
+  });
+  const resultType = results.length > 0 ? results.join('\n  | ') : 'ClientResult<number, unknown>';
+
+  const hasRequiredInput = inputLines.some((line) => !/^ {2}\w+\?:/.test(line));
+  const summary = operation.summary || operation.description;
+
+  let output = '';
+  output += inputLines.length > 0 ?
+    `export interface ${typeName}Input {\n${inputLines.join('')}}\n\n` :
+    `export type ${typeName}Input = Record<string, never>;\n\n`;
+  output += `export type ${typeName}Result =\n  | ${resultType};\n\n`;
+  output += summary ? toComment(summary, '') : '';
+  output += `export function ${name}(config: ClientConfig, input: ${typeName}Input${hasRequiredInput ? '' : ' = {}'}): Promise<${typeName}Result> {\n`;
+  output += `  return __request(config, {\n`;
+  output += `    method: ${JSON.stringify(method.toUpperCase())},\n`;
+  output += `    path: ${JSON.stringify(path)},\n`;
+  parts.forEach((part) => {
+    output += `    ${part}: (input as any).${part},\n`;
+  });
+  output += `    json: ${bodyContentType ? String(/json/i.test(bodyContentType)) : 'true'}\n`;
+  output += '  });\n}\n';
+  return output;
+}
+
+/**
+ * Generate a standalone TypeScript client module from an OpenAPI document
+ *
+ * @param document The OpenAPI 3.x document, e.g. from registry.generateOpenAPIDocument()
+ * @param options A header comment for the file, and a callback for warnings
+ * @returns The module source
+ * @throws Error when two components or operations would get the same name
+ */
+export function generateClient(document: any, options: GenerateClientOptions = {}): string {
+  const info = document.info || {};
+  const header = options.header ||
+    `Generated by plus-express from ${info.title || 'an OpenAPI document'}${info.version ? ` ${info.version}` : ''}. Do not edit.`;
+
+  const sections: string[] = [`/* eslint-disable */\n${toComment(header, '').trimEnd()}`, RUNTIME];
+
+  // What each generated name was declared for, so two declarations never share one
+  const declared = new Map<string, string>();
+  function declare(name: string, owner: string): void {
+    const existing = declared.get(name);
+    if (existing) {
+      throw new Error(`Cannot generate the client: ${existing} and ${owner} would both be named ${name}`);
+    }
+    declared.set(name, owner);
+  }
+
+  // Component schemas, as interfaces when they are plain objects
+  const schemas = (document.components && document.components.schemas) || {};
+  Object.keys(schemas).sort(compare).forEach((componentName) => {
+    const schema = schemas[componentName];
+    const typeName = toComponentName(componentName);
+    declare(typeName, `component "${componentName}"`);
+    const comment = schema && schema.description ? toComment(schema.description, '') : '';
+    const type = schemaToType({ ...schema, description: undefined });
+
+    sections.push(type.startsWith('{') ?
+      `${comment}export interface ${typeName} ${type}` :
+      `${comment}export type ${typeName} = ${type};`);
+  });
+
+  // Operations, by operationId
+  const operations: Array<{ operationId: string; source: string }> = [];
+  const skipped: string[] = [];
+  Object.keys(document.paths || {}).sort(compare).forEach((path) => {
+    const pathItem = document.paths[path];
+    DOCUMENT_METHODS.forEach((method) => {
+      const operation = pathItem[method];
+      if (!operation) {
+        return;
+      }
+      if (!operation.operationId) {
+        skipped.push(`${method.toUpperCase()} ${path}`);
+        return;
+      }
+
+      const owner = `operation "${operation.operationId}"`;
+      const typeName = toTypeName(operation.operationId);
+      [toFunctionName(operation.operationId), `${typeName}Input`, `${typeName}Result`].forEach((name) => declare(name, owner));
+      operations.push({ operationId: operation.operationId, source: generateOperation(document, method, path, pathItem, operation) });
+    });
+  });
+
+  if (skipped.length > 0 && options.onWarning) {
+    options.onWarning(`Operations without an operationId are left out of the client: ${skipped.join(', ')}`);
+  }
+
+  operations
+    .sort((left, right) => compare(left.operationId, right.operationId))
+    .forEach(({ source }) => sections.push(source.trimEnd()));
+
+  return `${sections.join('\n\n')}\n`;
+}
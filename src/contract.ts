@@ -0,0 +1,52 @@
+import { ZodObject, ZodType } from 'zod';
+
+// The contract types are declared here rather than in types.ts (which re-exports them), so the
+// plus-express/contract entry point depends on Zod alone
+
+// Methods a contract endpoint can be served with (the HttpMethod of types.ts)
+export type ContractMethod = 'get' | 'post' | 'put' | 'patch' | 'delete' | 'options' | 'head';
+
+// An endpoint of a contract: its schemas, and the method and path it is served at
+export interface ContractEndpoint {
+  method: ContractMethod;
+  path: string; // Express syntax, e.g. /users/:id
+  operationId?: string; // Defaults to the key of the endpoint in the contract
+  summary?: string;
+  description?: string;
+  deprecated?: boolean;
+  tags?: readonly string[];
+  body?: ZodType | Record<string, ZodType>; // A schema, or schemas by content type
+  params?: ZodObject<any>;
+  query?: ZodObject<any>;
+  headers?: ZodObject<any>;
+  cookies?: ZodObject<any>;
+  responses?: Record<string | number, { description: string; content?: Record<string, { schema: ZodType }> }>;
+}
+
+// Endpoints of an API by name, shared by the server implementing them and the clients calling them
+export type ContractDefinition = Record<string, ContractEndpoint>;
+
+const CONTRACT_METHODS: ContractMethod[] = ['get', 'post', 'put', 'delete', 'patch', 'options', 'head'];
+
+/**
+ * Define the endpoints of an API once, for the server to implement and clients to call
+ *
+ * The contract is a plain object of Zod schemas with no dependency on Express, so it can live
+ * in a package shared with frontends. Literal methods, paths and operationIds are kept in its type.
+ *
+ * @param contract Endpoints by name, each with a method, an Express path and its schemas
+ * @returns The same contract
+ * @throws Error when an endpoint has no valid method or path
+ */
+export function defineContract<const TContract extends ContractDefinition>(contract: TContract): TContract {
+  Object.entries(contract).forEach(([name, endpoint]) => {
+    if (!CONTRACT_METHODS.includes(endpoint.method)) {
+      throw new Error(`Contract endpoint ${name} has an invalid method: ${String(endpoint.method)}`);
+    }
+    if (typeof endpoint.path !== 'string' || !endpoint.path.startsWith('/')) {
+      throw new Error(`Contract endpoint ${name} needs a path starting with /`);
+    }
+  });
+
+  return contract;
+}
@@ -0,0 +1,465 @@
+import { DocumentChange, DocumentDiff, HttpMethod } from './types';
+import { DOCUMENT_METHODS, dereference } from './openapi';
+
+// Lower bounds: a request constraint is tightened when the value grows (or appears)
+const LOWER_BOUNDS = ['minimum', 'minLength', 'minItems', 'minProperties'];
+
+// Upper bounds: a request constraint is tightened when the value shrinks (or appears)
+const UPPER_BOUNDS = ['maximum', 'maxLength', 'maxItems', 'maxProperties'];
+
+// A schema with its $refs, allOf and null variants resolved
+interface NormalizedSchema {
+  schema: any;
+  types: string[]; // Without 'null', empty for any type
+  nullable: boolean;
+  refs: string[]; // The $refs followed, to stop at recursive schemas
+}
+
+// What a comparison is for: request schemas break clients when narrowed, response schemas when widened
+interface CompareContext {
+  oldDocument: any;
+  newDocument: any;
+  direction: 'request' | 'response';
+  operation: string;
+  location: string;
+  changes: DocumentChange[];
+  ancestors: Set<string>; // Pairs of references being compared, to stop at recursion
+}
+
+/**
+ * Resolve a schema into its type, nullability and the keywords that apply to it
+ *
+ * Handles both the 3.0 (`nullable`) and 3.1 (type arrays, `{ type: 'null' }` variants) forms,
+ * and merges allOf parts such as those wrapping a $ref.
+ */
+function normalizeSchema(document: any, input: any): NormalizedSchema {
+  const refs: string[] = [];
+  let schema = input || {};
+  while (schema.$ref) {
+    refs.push(schema.$ref);
+    schema = dereference(document, schema);
+  }
+
+  let nullable = schema.nullable === true;
+  let types: string[] = Array.isArray(schema.type) ? schema.type : schema.type ? [schema.type] : [];
+  if (types.includes('null')) {
+    nullable = true;
+    types = types.filter((type) => type !== 'null');
+  }
+
+  // A union with null is the other variant, made nullable
+  const variants = schema.anyOf || schema.oneOf;
+  if (Array.isArray(variants) && variants.some((variant: any) => variant && variant.type === 'null')) {
+    const others = variants.filter((variant: any) => !variant || variant.type !== 'null');
+    if (others.length === 1) {
+      const inner = normalizeSchema(document, others[0]);
+      return { ...inner, nullable: true, refs: [...refs, ...inner.refs] };
+    }
+    schema = { ...schema, [schema.anyOf ? 'anyOf' : 'oneOf']: others };
+    nullable = true;
+  }
+
+  // allOf parts are merged into one schema, nullable only when every part is
+  if (Array.isArray(schema.allOf)) {
+    const parts = schema.allOf.map((part: any) => normalizeSchema(document, part));
+    const merged: any = { ...schema };
+    delete merged.allOf;
+
+    parts.forEach((part: NormalizedSchema) => {
+      Object.entries<any>(part.schema).forEach(([key, value]) => {
+        if (key === 'properties') {
+          merged.properties = { ...merged.properties, ...value };
+        } else if (key === 'required') {
+          merged.required = Array.from(new Set([...(merged.required || []), ...value]));
+        } else if (key !== 'type' && key !== 'nullable' && merged[key] === undefined) {
+          merged[key] = value;
+        }
+      });
+      if (types.length === 0) {
+        types = part.types;
+      }
+      refs.push(...part.refs);
+    });
+
+    nullable = nullable || (parts.length > 0 && parts.every((part: NormalizedSchema) => part.nullable));
+    schema = merged;
+  }
+
+  if (types.length === 0 && schema.properties) {
+    types = ['object'];
+  }
+  return { schema, types, nullable, refs };
+}
+
+/**
+ * Check whether every type in a list is accepted by another (integers are numbers)
+ */
+function isSubset(types: string[], of: string[]): boolean {
+  return of.length === 0 || (types.length > 0 &&
+    types.every((type) => of.includes(type) || (type === 'integer' && of.includes('number'))));
+}
+
+/**
+ * Record a change
+ */
+function addChange(context: CompareContext, breaking: boolean, code: string, path: string, message: string): void {
+  context.changes.push({
+    code,
+    breaking,
+    operation: context.operation,
+    ...(context.location ? { location: context.location } : {}),
+    ...(path ? { path } : {}),
+    message
+  });
+}
+
+/**
+ * Compare two schemas, recording the changes that affect clients
+ *
+ * Request schemas break clients when they accept less; response schemas when they can return more.
+ */
+function compareSchemas(context: CompareContext, oldInput: any, newInput: any, path: string): void {
+  const before = normalizeSchema(context.oldDocument, oldInput);
+  const after = normalizeSchema(context.newDocument, newInput);
+
+  if (before.refs.length === 0 || after.refs.length === 0) {
+    compareNormalizedSchemas(context, before, after, path);
+    return;
+  }
+
+  // Recursive schemas stop at a pair of references already being compared further up, while
+  // a component referenced in several places is compared (and reported) at each of them
+  const key = `${context.direction} ${before.refs.join(',')} ${after.refs.join(',')}`;
+  if (context.ancestors.has(key)) {
+    return;
+  }
+  context.ancestors.add(key);
+  compareNormalizedSchemas(context, before, after, path);
+  context.ancestors.delete(key);
+}
+
+/**
+ * Compare two normalized schemas, recording the changes that affect clients
+ */
+function compareNormalizedSchemas(context: CompareContext, before: NormalizedSchema, after: NormalizedSchema, path: string): void {
+  const request = context.direction === 'request';
+  const oldSchema = before.schema;
+  const newSchema = after.schema;
+  const describe = (types: string[]) => types.join(' | ') || 'any';
+
+  if (describe(before.types) !== describe(after.types)) {
+    const widened = isSubset(before.types, after.types);
+    const narrowed = isSubset(after.types, before.types);
+    if (request ? widened : narrowed) {
+      addChange(context, false, request ? 'type-widened' : 'type-narrowed', path,
+        `Type changed from ${describe(before.types)} to ${describe(after.types)}`);
+    } else {
+      addChange(context, true, 'type-changed', path, `Type changed from ${describe(before.types)} to ${describe(after.types)}`);
+      return;
+    }
+  }
+
+  if (before.nullable !== after.nullable) {
+    if (after.nullable) {
+      addChange(context, !request, 'nullable-added', path, request ? 'Now accepts null' : 'May now be null');
+    } else {
+      addChange(context, request, 'nullable-removed', path, request ? 'No longer accepts null' : 'Is no longer null');
+    }
+  }
+
+  if (oldSchema.format !== newSchema.format) {
+    const breaking = request ? newSchema.format !== undefined : oldSchema.format !== undefined;
+    addChange(context, breaking, 'format-changed', path,
+      `Format changed from ${oldSchema.format || 'none'} to ${newSchema.format || 'none'}`);
+  }
+
+  // Enums: requests break when values are removed, responses when values are added
+  const oldEnum: unknown[] | undefined = Array.isArray(oldSchema.enum) ? oldSchema.enum : undefined;
+  const newEnum: unknown[] | undefined = Array.isArray(newSchema.enum) ? newSchema.enum : undefined;
+  if (oldEnum || newEnum) {
+    const format = (values: unknown[]) => values.map((value) => JSON.stringify(value)).join(', ');
+    const removed = oldEnum && newEnum ? oldEnum.filter((value) => !newEnum.includes(value)) : [];
+    const added = oldEnum && newEnum ? newEnum.filter((value) => !oldEnum.includes(value)) : [];
+
+    if (!oldEnum) {
+      addChange(context, request, 'enum-added', path, `Now limited to ${format(newEnum as unknown[])}`);
+    } else if (!newEnum) {
+      addChange(context, !request, 'enum-removed', path, `No longer limited to ${format(oldEnum)}`);
+    }
+    if (removed.length > 0) {
+      addChange(context, request, 'enum-narrowed', path, `No longer ${request ? 'accepts' : 'returns'} ${format(removed)}`);
+    }
+    if (added.length > 0) {
+      addChange(context, !request, 'enum-widened', path, `Now ${request ? 'accepts' : 'may return'} ${format(added)}`);
+    }
+  }
+
+  // Constraints only matter for what clients send
+  if (request) {
+    LOWER_BOUNDS.concat(UPPER_BOUNDS).forEach((keyword) => {
+      const oldValue = oldSchema[keyword];
+      const newValue = newSchema[keyword];
+      if (oldValue === newValue || (typeof oldValue !== 'number' && typeof newValue !== 'number')) {
+        return;
+      }
+
+      const lower = LOWER_BOUNDS.includes(keyword);
+      const tightened = newValue !== undefined &&
+        (oldValue === undefined || (lower ? newValue > oldValue : newValue < oldValue));
+      addChange(context, tightened, tightened ? 'constraint-tightened' : 'constraint-loosened', path,
+        `${keyword} changed from ${oldValue === undefined ? 'none' : oldValue} to ${newValue === undefined ? 'none' : newValue}`);
+    });
+
+    if (oldSchema.pattern !== newSchema.pattern) {
+      addChange(context, newSchema.pattern !== undefined, 'pattern-changed', path,
+        `Pattern changed from ${oldSchema.pattern || 'none'} to ${newSchema.pattern || 'none'}`);
+    }
+  }
+
+  // Properties: requests break on new required ones, responses on removed or optional ones
+  if (oldSchema.properties || newSchema.properties) {
+    const oldProperties: Record<string, any> = oldSchema.properties || {};
+    const newProperties: Record<string, any> = newSchema.properties || {};
+    const oldRequired: string[] = oldSchema.required || [];
+    const newRequired: string[] = newSchema.required || [];
+    const propertyPath = (name: string) => (path ? `${path}.${name}` : name);
+
+    Object.keys(oldProperties).forEach((name) => {
+      if (!(name in newProperties)) {
+        addChange(context, !request, 'property-removed', propertyPath(name), 'Property was removed');
+        return;
+      }
+
+      const wasRequired = oldRequired.includes(name);
+      const isRequired = newRequired.includes(name);
+      if (!wasRequired && isRequired) {
+        addChange(context, request, 'property-became-required', propertyPath(name), 'Property became required');
+      } else if (wasRequired && !isRequired) {
+        addChange(context, !request, 'property-became-optional', propertyPath(name), 'Property became optional');
+      }
+
+      compareSchemas(context, oldProperties[name], newProperties[name], propertyPath(name));
+    });
+
+    Object.keys(newProperties).filter((name) => !(name in oldProperties)).forEach((name) => {
+      const required = newRequired.includes(name);
+      addChange(context, request && required, required ? 'property-added-required' : 'property-added', propertyPath(name),
+        required ? 'Required property was added' : 'Property was added');
+    });
+  }
+
+  // Undeclared properties: requests break when they are no longer accepted, responses never do
+  const oldAdditional = oldSchema.additionalProperties;
+  const newAdditional = newSchema.additionalProperties;
+  if (oldAdditional !== false && newAdditional === false) {
+    addChange(context, request, 'additional-properties-disallowed', path,
+      request ? 'No longer accepts undeclared properties' : 'No longer returns undeclared properties');
+  } else if (oldAdditional === false && newAdditional !== false) {
+    addChange(context, false, 'additional-properties-allowed', path,
+      request ? 'Now accepts undeclared properties' : 'May now return undeclared properties');
+  } else if (typeof oldAdditional === 'object' && typeof newAdditional === 'object') {
+    compareSchemas(context, oldAdditional, newAdditional, path ? `${path}.*` : '*');
+  }
+
+  if (oldSchema.items || newSchema.items) {
+    compareSchemas(context, oldSchema.items, newSchema.items, `${path}[]`);
+  }
+
+  // Unions: requests break when variants are removed, responses when variants are added
+  const oldVariants = oldSchema.anyOf || oldSchema.oneOf;
+  const newVariants = newSchema.anyOf || newSchema.oneOf;
+  if (Array.isArray(oldVariants) && Array.isArray(newVariants) && oldVariants.length !== newVariants.length) {
+    const fewer = newVariants.length < oldVariants.length;
+    addChange(context, request ? fewer : !fewer, fewer ? 'variant-removed' : 'variant-added', path,
+      `Variants changed from ${oldVariants.length} to ${newVariants.length}`);
+  }
+}
+
+/**
+ * List the parameters of an operation by location and name (path params by position)
+ */
+function getParameters(document: any, path: string, pathItem: any, operation: any): Map<string, any> {
+  const parameters = new Map<string, any>();
+  const pathParams = (path.match(/\{[^{}]+\}/g) || []).map((match) => match.slice(1, -1));
+
+  [...(pathItem.parameters || []), ...(operation.parameters || [])].forEach((reference: any) => {
+    const parameter = dereference(document, reference);
+    const name = parameter.in === 'header' ? String(parameter.name).toLowerCase() : parameter.name;
+    const key = parameter.in === 'path' ? `path #${pathParams.indexOf(parameter.name)}` : `${parameter.in} ${name}`;
+    parameters.set(key, { ...parameter, name });
+  });
+
+  return parameters;
+}
+
+/**
+ * List the operations of a document by method and path, ignoring the names of path params
+ */
+function getOperations(document: any): Map<string, { path: string; method: HttpMethod; pathItem: any; operation: any }> {
+  const operations = new Map<string, { path: string; method: HttpMethod; pathItem: any; operation: any }>();
+
+  Object.entries<any>((document && document.paths) || {}).forEach(([path, reference]) => {
+    const pathItem = dereference(document, reference);
+    DOCUMENT_METHODS.filter((method) => pathItem[method]).forEach((method) => {
+      operations.set(`${method} ${path.replace(/\{[^{}]+\}/g, '{}')}`, { path, method, pathItem, operation: pathItem[method] });
+    });
+  });
+
+  return operations;
+}
+
+/**
+ * Compare the operations two documents share
+ */
+function compareOperations(
+  before: { path: string; pathItem: any; operation: any },
+  after: { path: string; pathItem: any; operation: any },
+  context: Omit<CompareContext, 'direction' | 'location'>
+): void {
+  const { oldDocument, newDocument } = context;
+  const request = { ...context, direction: 'request' as const, location: '' };
+  const response = { ...context, direction: 'response' as const, location: '' };
+
+  if (!before.operation.deprecated && after.operation.deprecated) {
+    addChange(request, false, 'operation-deprecated', '', 'Operation was deprecated');
+  }
+
+  // Parameters
+  const oldParameters = getParameters(oldDocument, before.path, before.pathItem, before.operation);
+  const newParameters = getParameters(newDocument, after.path, after.pathItem, after.operation);
+
+  oldParameters.forEach((oldParameter, key) => {
+    const newParameter = newParameters.get(key);
+    request.location = `${oldParameter.in} parameter ${oldParameter.name}`;
+
+    if (!newParameter) {
+      addChange(request, false, 'parameter-removed', '', 'Parameter was removed');
+      return;
+    }
+
+    request.location = `${newParameter.in} parameter ${newParameter.name}`;
+    if (!oldParameter.required && newParameter.required) {
+      addChange(request, true, 'parameter-became-required', '', 'Parameter became required');
+    } else if (oldParameter.required && !newParameter.required) {
+      addChange(request, false, 'parameter-became-optional', '', 'Parameter became optional');
+    }
+    compareSchemas(request, oldParameter.schema, newParameter.schema, '');
+  });
+
+  newParameters.forEach((newParameter, key) => {
+    if (!oldParameters.has(key)) {
+      request.location = `${newParameter.in} parameter ${newParameter.name}`;
+      addChange(request, Boolean(newParameter.required), newParameter.required ? 'parameter-added-required' : 'parameter-added', '',
+        newParameter.required ? 'Required parameter was added' : 'Optional parameter was added');
+    }
+  });
+
+  // Request body
+  const oldBody = before.operation.requestBody ? dereference(oldDocument, before.operation.requestBody) : undefined;
+  const newBody = after.operation.requestBody ? dereference(newDocument, after.operation.requestBody) : undefined;
+  request.location = 'request body';
+
+  if (oldBody && !newBody) {
+    addChange(request, false, 'request-body-removed', '', 'Request body was removed');
+  } else if (!oldBody && newBody) {
+    addChange(request, Boolean(newBody.required), newBody.required ? 'request-body-added-required' : 'request-body-added', '',
+      newBody.required ? 'Required request body was added' : 'Optional request body was added');
+  } else if (oldBody && newBody) {
+    if (!oldBody.required && newBody.required) {
+      addChange(request, true, 'request-body-became-required', '', 'Request body became required');
+    } else if (oldBody.required && !newBody.required) {
+      addChange(request, false, 'request-body-became-optional', '', 'Request body became optional');
+    }
+    compareContent(request, oldBody.content, newBody.content, 'request body');
+  }
+
+  // Responses: removed success responses break clients, other removals do not
+  const oldResponses: Record<string, any> = before.operation.responses || {};
+  const newResponses: Record<string, any> = after.operation.responses || {};
+
+  Object.keys(oldResponses).forEach((status) => {
+    response.location = `response ${status}`;
+    if (!(status in newResponses)) {
+      addChange(response, /^2/.test(status), 'response-removed', '', 'Response was removed');
+      return;
+    }
+
+    compareContent(
+      response,
+      dereference(oldDocument, oldResponses[status]).content,
+      dereference(newDocument, newResponses[status]).content,
+      `response ${status}`
+    );
+  });
+
+  Object.keys(newResponses).filter((status) => !(status in oldResponses)).forEach((status) => {
+    response.location = `response ${status}`;
+    addChange(response, false, 'response-added', '', 'Response was added');
+  });
+}
+
+/**
+ * Compare the media types of a request body or response
+ */
+function compareContent(context: CompareContext, oldContent: any, newContent: any, location: string): void {
+  const before: Record<string, any> = oldContent || {};
+  const after: Record<string, any> = newContent || {};
+  const request = context.direction === 'request';
+
+  Object.keys(before).forEach((mediaType) => {
+    context.location = `${location} ${mediaType}`;
+    if (!(mediaType in after)) {
+      addChange(context, true, 'media-type-removed', '',
+        request ? 'Media type is no longer accepted' : 'Media type is no longer returned');
+      return;
+    }
+    compareSchemas(context, before[mediaType].schema, after[mediaType].schema, '');
+  });
+
+  Object.keys(after).filter((mediaType) => !(mediaType in before)).forEach((mediaType) => {
+    context.location = `${location} ${mediaType}`;
+    addChange(context, false, 'media-type-added', '',
+      request ? 'Media type is now accepted' : 'Media type may now be returned');
+  });
+}
+
+/**
+ * Compare two OpenAPI documents and classify the changes for clients of the old one
+ *
+ * Operations are matched by method and path (path param names may change). Breaking changes
+ * include removed operations, new required params or body properties, narrowed request enums,
+ * removed response properties and changed types. Schemas are compared through their $refs,
+ * so changes to a component are reported at every operation using it.
+ *
+ * @param oldDocument The document clients were built against
+ * @param newDocument The document of the new version
+ * @returns The changes, split into breaking and non-breaking
+ */
+export function diffDocuments(oldDocument: any, newDocument: any): DocumentDiff {
+  const changes: DocumentChange[] = [];
+  const oldOperations = getOperations(oldDocument);
+  const newOperations = getOperations(newDocument);
+
+  oldOperations.forEach((before, key) => {
+    const after = newOperations.get(key);
+    const operation = `${before.method.toUpperCase()} ${(after || before).path}`;
+
+    if (!after) {
+      changes.push({ code: 'operation-removed', breaking: true, operation, message: 'Operation was removed' });
+      return;
+    }
+    compareOperations(before, after, { oldDocument, newDocument, operation, changes, ancestors: new Set() });
+  });
+
+  newOperations.forEach((after, key) => {
+    if (!oldOperations.has(key)) {
+      const operation = `${after.method.toUpperCase()} ${after.path}`;
+      changes.push({ code: 'operation-added', breaking: false, operation, message: 'Operation was added' });
+    }
+  });
+
+  return {
+    breaking: changes.filter((change) => change.breaking),
+    nonBreaking: changes.filter((change) => !change.breaking)
+  };
+}
@@ -0,0 +1,114 @@
+import { Request, Response, Router } from 'express';
+import { DocsRouterOptions, Registry } from './types';
+import { toYAML } from './yaml';
+
+// Asset URLs used when none are configured
+const DEFAULT_ASSETS = {
+  'swagger-ui': {
+    scripts: ['https://unpkg.com/swagger-ui-dist@5/swagger-ui-bundle.js'],
+    stylesheets: ['https://unpkg.com/swagger-ui-dist@5/swagger-ui.css']
+  },
+  redoc: {
+    scripts: ['https://unpkg.com/redoc@2/bundles/redoc.standalone.js'],
+    stylesheets: [] as string[]
+  }
+};
+
+/**
+ * Escape text for use in HTML content and attribute values
+ */
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Render the HTML viewer page for a document URL
+ */
+function renderViewer(
+  ui: 'swagger-ui' | 'redoc',
+  title: string,
+  specUrl: string,
+  assets: { scripts: string[]; stylesheets: string[] }
+): string {
+  const stylesheets = assets.stylesheets
+    .map((href) => `<link rel="stylesheet" href="${escapeHtml(href)}">`)
+    .join('\n    ');
+  const scripts = assets.scripts
+    .map((src) => `<script src="${escapeHtml(src)}"></script>`)
+    .join('\n    ');
+
+  const body = ui === 'redoc' ?
+    `<redoc spec-url="${escapeHtml(specUrl)}"></redoc>\n    ${scripts}` :
+    `<div id="swagger-ui"></div>
+    ${scripts}
+    <script>
+      window.onload = function() {
+        SwaggerUIBundle({ url: ${JSON.stringify(specUrl).replace(/</g, '\\u003c')}, dom_id: '#swagger-ui' });
+      };
+    </script>`;
+
+  return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <meta name="viewport" content="width=device-width, initial-scale=1">
+    <title>${escapeHtml(title)}</title>
+    ${stylesheets}
+  </head>
+  <body>
+    ${body}
+  </body>
+</html>
+`;
+}
+
+/**
+ * Create a router serving the registry's OpenAPI document as JSON, YAML and an HTML viewer
+ *
+ * Every request serves the registry's current document, which the registry caches until
+ * a route, mount or configuration change.
+ *
+ * @param registry The registry to document
+ * @param options Paths, viewer and asset URLs
+ * @returns An Express router to mount, e.g. at /docs
+ */
+export function createDocsRouter(registry: Registry, options: DocsRouterOptions = {}): Router {
+  const {
+    jsonPath = '/openapi.json',
+    yamlPath = '/openapi.yaml',
+    htmlPath = '/',
+    ui = 'swagger-ui',
+    title,
+    assets,
+    config
+  } = options;
+
+  const router = Router();
+
+  router.get(jsonPath, (req: Request, res: Response) => {
+    res.json(registry.generateOpenAPIDocument(config));
+  });
+
+  router.get(yamlPath, (req: Request, res: Response) => {
+    res.type('application/yaml').send(toYAML(registry.generateOpenAPIDocument(config)));
+  });
+
+  if (ui) {
+    router.get(htmlPath, (req: Request, res: Response) => {
+      const document = registry.generateOpenAPIDocument(config);
+      const pageTitle = title || (document.info && document.info.title) || 'API Documentation';
+
+      res.type('html').send(renderViewer(ui, pageTitle, `${req.baseUrl}${jsonPath}`, {
+        scripts: (assets && assets.scripts) || DEFAULT_ASSETS[ui].scripts,
+        stylesheets: (assets && assets.stylesheets) || DEFAULT_ASSETS[ui].stylesheets
+      }));
+    });
+  }
+
+  return router;
+}
@@ -0,0 +1,95 @@
+/**
+ * Type-level tests, compiled by `npm run type-check` and never run
+ *
+ * Every `@ts-expect-error` must meet a compile error, so removing the type checking it
+ * guards fails the type-check.
+ */
+import express from 'express';
+import { expectTypeOf } from 'vitest';
+import { plus, defineMiddleware, defineContract, createClient } from './index';
+import { z } from 'zod';
+
+const User = z.object({ id: z.number(), name: z.string() });
+const responses = {
+  200: { description: 'The user', content: { 'application/json': { schema: User } } },
+  404: { description: 'Not found', content: { 'application/json': { schema: z.object({ message: z.string() }) } } }
+};
+
+// Typed responses: only declared statuses, with payloads matching their schema
+{
+  const { app } = plus(express());
+
+  app.get({ path: '/users/:id', responses }, (req, res) => {
+    res.json({ id: 1, name: 'Ada' });
+    res.status(404).json({ message: 'Not found' });
+
+    // @ts-expect-error 500 is not declared
+    res.status(500);
+    // @ts-expect-error the payload does not match the 200 schema
+    res.json({ id: '1', name: 'Ada' });
+    // @ts-expect-error the payload does not match the 404 schema
+    res.status(404).json({ id: 1, name: 'Ada' });
+  });
+}
+
+// Declared middleware: what it provides is typed on the requests of routes using it
+{
+  const { app } = plus(express());
+  const requireUser = defineMiddleware<{ user: { id: number } }>({ handler: (req, res, next) => next() });
+  const requireTeam = defineMiddleware<{ team: string }>({ handler: (req, res, next) => next() });
+
+  app.get({ path: '/me', middleware: [requireUser, requireTeam] }, (req, res) => {
+    expectTypeOf(req.user).toEqualTypeOf<{ id: number }>();
+    expectTypeOf(req.team).toEqualTypeOf<string>();
+    res.end();
+  });
+
+  app.get({ path: '/health' }, (req, res) => {
+    // @ts-expect-error routes without the middleware do not get its additions
+    res.json(req.user);
+  });
+}
+
+// Typed client: results are discriminated by the declared statuses
+{
+  const { router } = plus();
+  const api = router.get({ path: '/users/:id', params: z.object({ id: z.coerce.number() }), responses }, (req, res) => {
+    res.json({ id: req.parsed.params.id, name: 'Ada' });
+  });
+  const client = createClient<typeof api>('https://api.example.com', fetch);
+
+  (async () => {
+    const result = await client['GET /users/:id']({ params: { id: 1 } });
+    if (result.status === 200) {
+      expectTypeOf(result.data).toEqualTypeOf<{ id: number; name: string }>();
+    } else {
+      expectTypeOf(result.status).toEqualTypeOf<404>();
+      expectTypeOf(result.data).toEqualTypeOf<{ message: string }>();
+    }
+
+    // @ts-expect-error params are required
+    await client['GET /users/:id']({});
+    // @ts-expect-error the route is not part of the API
+    await client['GET /teams']({});
+  })();
+}
+
+// Contracts: every endpoint needs a handler, typed from the contract
+{
+  const contract = defineContract({
+    getUser: { method: 'get', path: '/users/:id', params: z.object({ id: z.string() }), responses },
+    listUsers: { method: 'get', path: '/users' }
+  });
+  const { router } = plus();
+
+  router.implement(contract, {
+    getUser: (req, res) => {
+      expectTypeOf(req.parsed.params.id).toEqualTypeOf<string>();
+      res.status(404).json({ message: 'Not found' });
+    },
+    listUsers: (req, res) => res.json([])
+  });
+
+  // @ts-expect-error listUsers has no handler
+  router.implement(contract, { getUser: (req, res) => res.json({ id: 1, name: 'Ada' }) });
+}
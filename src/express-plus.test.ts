@@ -1,8 +1,13 @@
-import { describe, it, expect, beforeEach } from 'vitest';
+import { describe, it, expect, beforeEach, vi } from 'vitest';
 import express, { Application, Router } from 'express';
 import request from 'supertest';
-import { plus } from './index';
+import { PassThrough } from 'stream';
+import { plus, createRegistry, defineMiddleware, defineContract, fileField, parseMultipart, toYAML, createClient, generateClient, testApi, diffDocuments } from './index';
 import { z } from 'zod';
+import * as fs from 'fs';
+import * as os from 'os';
+import * as path from 'path';
+import { main } from './cli';
 
 describe('plus', () => {
   let app: Application;
@@ -132,71 +137,1998 @@ describe('plus', () => {
       expect(response.status).toBe(200);
       expect(response.body.apiKey).toBe('valid-api-key-12345');
     });
+
+    it('should validate cookies parsed from the Cookie header', async () => {
+      app.get({
+        path: '/session',
+        cookies: z.object({
+          sessionId: z.string().min(8),
+          theme: z.enum(['light', 'dark']).default('light')
+        })
+      }, (req, res) => {
+        res.json(req.parsed.cookies);
+      });
+
+      const valid = await request(app)
+        .get('/session')
+        .set('Cookie', 'sessionId=abc%20def123; other=1');
+      expect(valid.status).toBe(200);
+      expect(valid.body).toEqual({ sessionId: 'abc def123', theme: 'light' });
+
+      const invalid = await request(app).get('/session');
+      expect(invalid.status).toBe(400);
+    });
+  });
+
+  describe('Async Validation', () => {
+    const takenEmails = ['taken@example.com'];
+    const isAvailable = async (email: string) => !takenEmails.includes(email);
+
+    beforeEach(() => {
+      app.use(express.json());
+    });
+
+    it('should detect async refinements and validate with parseAsync', async () => {
+      let calls = 0;
+      app.post({
+        path: '/users',
+        body: z.object({
+          email: z.string().email().refine(async (email) => {
+            calls++;
+            return isAvailable(email);
+          }, 'Email is already registered')
+        })
+      }, (req, res) => {
+        res.json(req.parsed.body);
+      });
+
+      const valid = await request(app).post('/users').send({ email: 'new@example.com' });
+      expect(valid.status).toBe(200);
+      expect(valid.body).toEqual({ email: 'new@example.com' });
+
+      const taken = await request(app).post('/users').send({ email: 'taken@example.com' });
+      expect(taken.status).toBe(400);
+
+      // Once detected, later requests skip the synchronous attempt
+      expect(calls).toBe(3);
+    });
+
+    it('should use parseAsync from the start when configured', async () => {
+      let calls = 0;
+      app.get('/users/:id', {
+        asyncValidation: true,
+        params: z.object({
+          id: z.string().transform(async (id) => {
+            calls++;
+            return { id };
+          })
+        })
+      }, (req, res) => {
+        res.json(req.parsed.params);
+      });
+
+      const response = await request(app).get('/users/42');
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ id: { id: '42' } });
+      expect(calls).toBe(1);
+    });
+
+    it('should forward errors thrown by async refinements', async () => {
+      app.post({
+        path: '/users',
+        asyncValidation: true,
+        body: z.object({
+          email: z.string().refine(async () => {
+            throw new Error('Database unavailable');
+          })
+        })
+      }, (req, res) => {
+        res.json({});
+      });
+      app.use((err: any, req: any, res: any, _next: any) => {
+        res.status(err.status).json({ errors: err.errors });
+      });
+
+      const response = await request(app).post('/users').send({ email: 'a@example.com' });
+      expect(response.status).toBe(400);
+      expect(response.body.errors).toBe('Database unavailable');
+    });
+
+    it('should forward errors thrown while handling async validation failures', async () => {
+      app.post({
+        path: '/users',
+        body: z.object({
+          email: z.string().refine(async (email) => isAvailable(email), 'Email is already registered')
+        }),
+        onValidationError: () => {
+          throw new Error('Formatter failed');
+        }
+      }, (req, res) => {
+        res.json({});
+      });
+      app.use((err: any, req: any, res: any, _next: any) => {
+        res.status(err.status || 500).json({ message: err.message });
+      });
+
+      const response = await request(app).post('/users').send({ email: 'taken@example.com' });
+      expect(response.status).toBe(500);
+      expect(response.body.message).toBe('Formatter failed');
+    });
+  });
+
+  describe('Strict Mode', () => {
+    let strictApp: Application;
+    let strictRegistry: any;
+
+    beforeEach(() => {
+      const result = plus(express(), { strict: true });
+      strictApp = result.app;
+      strictRegistry = result.registry;
+      strictApp.use(express.json());
+    });
+
+    function respondWithErrors(target: Application) {
+      target.use((err: any, req: any, res: any, _next: any) => {
+        res.status(err.status).json({ errors: err.errors });
+      });
+    }
+
+    it('should reject undeclared query keys and body properties', async () => {
+      strictApp.post({
+        path: '/users',
+        query: z.object({ notify: z.string().optional() }),
+        body: z.object({ name: z.string() })
+      }, (req, res) => {
+        res.json(req.parsed.body);
+      });
+      respondWithErrors(strictApp);
+
+      const response = await request(strictApp)
+        .post('/users?notify=yes&debug=1')
+        .send({ name: 'John', role: 'admin' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.errors).toEqual([
+        expect.objectContaining({ location: 'body', code: 'unrecognized_keys', keys: ['role'] }),
+        expect.objectContaining({ location: 'query', code: 'unrecognized_keys', keys: ['debug'] })
+      ]);
+    });
+
+    it('should only check x- headers when header strictness is enabled', async () => {
+      strictApp.get({
+        path: '/users',
+        strict: { headers: true },
+        headers: z.object({ 'x-api-key': z.string() })
+      }, (req, res) => {
+        res.json({});
+      });
+      respondWithErrors(strictApp);
+
+      const valid = await request(strictApp).get('/users').set('x-api-key', 'key').set('accept', 'text/plain');
+      expect(valid.status).toBe(200);
+
+      const invalid = await request(strictApp).get('/users').set('x-api-key', 'key').set('x-debug', '1');
+      expect(invalid.status).toBe(400);
+      expect(invalid.body.errors[0].keys).toEqual(['x-debug']);
+    });
+
+    it('should let routes opt out of strict mode', async () => {
+      strictApp.get({
+        path: '/users',
+        strict: false
+      }, (req, res) => {
+        res.json({});
+      });
+
+      const response = await request(strictApp).get('/users?debug=1');
+      expect(response.status).toBe(200);
+    });
+
+    it('should document strict bodies with additionalProperties: false', () => {
+      strictApp.post({
+        path: '/users',
+        body: z.object({ name: z.string() })
+      }, (req, res) => {
+        res.json({});
+      });
+
+      const doc = strictRegistry.generateOpenAPIDocument();
+      const schema = doc.paths['/users'].post.requestBody.content['application/json'].schema;
+      expect(schema.additionalProperties).toBe(false);
+    });
+  });
+
+  describe('Request Body Content Types', () => {
+    const contactBody = {
+      'application/json': z.object({ email: z.string().email() }),
+      'application/x-www-form-urlencoded': z.object({ email: z.string().email() }),
+      'text/plain': z.string().min(3)
+    };
+
+    beforeEach(() => {
+      app.use(express.json());
+      app.use(express.urlencoded({ extended: false }));
+      app.use(express.text());
+
+      app.post({ path: '/contact', body: contactBody }, (req, res) => {
+        res.json({ body: req.parsed.body });
+      });
+    });
+
+    it('should validate form-urlencoded bodies', async () => {
+      const response = await request(app)
+        .post('/contact')
+        .type('form')
+        .send('email=john@example.com');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ body: { email: 'john@example.com' } });
+    });
+
+    it('should validate text bodies against the text schema', async () => {
+      const valid = await request(app).post('/contact').type('text/plain').send('hello');
+      expect(valid.status).toBe(200);
+      expect(valid.body).toEqual({ body: 'hello' });
+
+      const invalid = await request(app).post('/contact').type('text/plain').send('hi');
+      expect(invalid.status).toBe(400);
+    });
+
+    it('should reject undeclared content types with 415', async () => {
+      const response = await request(app)
+        .post('/contact')
+        .type('application/xml')
+        .send('<email>john@example.com</email>');
+
+      expect(response.status).toBe(415);
+    });
+
+    it('should document every content type in the request body', () => {
+      const doc = registry.generateOpenAPIDocument();
+      const content = doc.paths['/contact'].post.requestBody.content;
+
+      expect(Object.keys(content)).toEqual([
+        'application/json',
+        'application/x-www-form-urlencoded',
+        'text/plain'
+      ]);
+      expect(content['text/plain'].schema.type).toBe('string');
+    });
+
+    it('should document whether the request body is required', () => {
+      app.post({ path: '/notes', body: z.object({ text: z.string() }).optional() }, (req, res) => {
+        res.json({});
+      });
+
+      const doc = registry.generateOpenAPIDocument();
+      expect(doc.paths['/contact'].post.requestBody.required).toBe(true);
+      expect(doc.paths['/notes'].post.requestBody.required).toBe(false);
+    });
+  });
+
+  describe('File Uploads', () => {
+    beforeEach(() => {
+      app.post({
+        path: '/avatars',
+        body: {
+          'multipart/form-data': z.object({
+            name: z.string().min(2),
+            avatar: fileField({ maxSize: 1024, mimeTypes: ['image/*'] }),
+            attachments: fileField({ maxCount: 3, maxSize: 2048 }).optional()
+          })
+        }
+      }, (req, res) => {
+        const { name, avatar, attachments = [] } = req.parsed.body;
+        res.json({
+          name,
+          avatar: { originalName: avatar.originalName, mimeType: avatar.mimeType, size: avatar.size },
+          attachments: attachments.map((file) => file.buffer.toString())
+        });
+      });
+    });
+
+    it('should parse fields and files from multipart bodies', async () => {
+      const response = await request(app)
+        .post('/avatars')
+        .field('name', 'John')
+        .attach('avatar', Buffer.from('png-bytes'), { filename: 'me.png', contentType: 'image/png' })
+        .attach('attachments', Buffer.from('first'), 'first.txt');
+
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({
+        name: 'John',
+        avatar: { originalName: 'me.png', mimeType: 'image/png', size: 9 },
+        attachments: ['first']
+      });
+    });
+
+    it('should reject files with a disallowed MIME type', async () => {
+      const response = await request(app)
+        .post('/avatars')
+        .field('name', 'John')
+        .attach('avatar', Buffer.from('text'), { filename: 'me.txt', contentType: 'text/plain' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should reject files larger than the field size', async () => {
+      const response = await request(app)
+        .post('/avatars')
+        .field('name', 'John')
+        .attach('avatar', Buffer.alloc(1500), { filename: 'me.png', contentType: 'image/png' });
+
+      expect(response.status).toBe(400);
+    });
+
+    it('should stop reading files larger than any declared size', async () => {
+      const response = await request(app)
+        .post('/avatars')
+        .field('name', 'John')
+        .attach('avatar', Buffer.alloc(4096), { filename: 'me.png', contentType: 'image/png' });
+
+      expect(response.status).toBe(413);
+    });
+
+    it('should document file fields as binary strings', () => {
+      const doc = registry.generateOpenAPIDocument();
+      const schema = doc.paths['/avatars'].post.requestBody.content['multipart/form-data'].schema;
+
+      expect(schema.properties.avatar).toEqual({ type: 'string', format: 'binary' });
+      expect(schema.properties.attachments.items).toEqual({ type: 'string', format: 'binary' });
+      expect(schema.required).toEqual(['name', 'avatar']);
+    });
+
+    it('should parse bodies whose delimiters are split across chunks', async () => {
+      const body = [
+        '--xyz',
+        'Content-Disposition: form-data; name="title"',
+        '',
+        'Hello',
+        '--xyz',
+        'Content-Disposition: form-data; name="doc"; filename="a.txt"',
+        'Content-Type: text/plain',
+        '',
+        'line one\r\nline two',
+        '--xyz--',
+        ''
+      ].join('\r\n');
+
+      const stream: any = new PassThrough();
+      stream.headers = { 'content-type': 'multipart/form-data; boundary=xyz' };
+      const parsing = parseMultipart(stream);
+
+      for (const byte of Buffer.from(body)) {
+        stream.write(Buffer.from([byte]));
+      }
+      stream.end();
+
+      const result: any = await parsing;
+      expect(result.title).toBe('Hello');
+      expect(result.doc.buffer.toString()).toBe('line one\r\nline two');
+      expect(result.doc.mimeType).toBe('text/plain');
+    });
+  });
+
+  describe('Response Serialization', () => {
+    const userResponses = {
+      200: {
+        description: 'User',
+        content: {
+          'application/json': {
+            schema: z.object({
+              id: z.string(),
+              name: z.string(),
+              createdAt: z.date().transform((date) => date.toISOString().slice(0, 10))
+            })
+          }
+        }
+      }
+    };
+    const row = {
+      id: '1',
+      name: 'John',
+      passwordHash: 'secret',
+      createdAt: new Date('2024-01-02T03:04:05Z')
+    };
+
+    it('should strip undeclared fields and apply transforms', async () => {
+      const { app } = plus(express(), { serializeResponses: true });
+
+      app.get({ path: '/users/1', responses: userResponses }, (req, res) => {
+        res.json(row);
+      });
+
+      const response = await request(app).get('/users/1');
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ id: '1', name: 'John', createdAt: '2024-01-02' });
+    });
+
+    it('should not send payloads that cannot be serialized', async () => {
+      const { app } = plus(express(), { serializeResponses: true });
+
+      app.get({ path: '/users/1', responses: userResponses }, (req, res) => {
+        res.json({ ...row, name: undefined });
+      });
+
+      const response = await request(app).get('/users/1');
+      expect(response.status).toBe(500);
+      expect(response.text).not.toContain('secret');
+    });
+
+    it('should serialize JSON strings sent with res.send', async () => {
+      const { app } = plus(express(), { serializeResponses: true });
+
+      app.get({
+        path: '/users/1',
+        responses: { 200: { description: 'User', content: { 'application/json': { schema: z.object({ id: z.number() }) } } } }
+      }, (req, res) => {
+        res.type('json').send(JSON.stringify({ id: 1, passwordHash: 'x' }));
+      });
+
+      const response = await request(app).get('/users/1');
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toMatch(/application\/json/);
+      expect(response.text).toBe('{"id":1}');
+    });
+
+    it('should let routes send raw output', async () => {
+      const { app } = plus(express(), { serializeResponses: true });
+
+      app.get({ path: '/users/1', responses: userResponses, serializeResponses: false }, (req, res) => {
+        res.json({ id: '1', debug: true });
+      });
+
+      const response = await request(app).get('/users/1');
+      expect(response.body).toEqual({ id: '1', debug: true });
+    });
+  });
+
+  describe('Validation Errors', () => {
+    const querySchema = z.object({
+      limit: z.coerce.number().max(100)
+    });
+
+    it('should pass Zod issues to the error handler by default', async () => {
+      app.get({ path: '/users', query: querySchema }, (req, res) => {
+        res.json({});
+      });
+      app.use((err: any, req: any, res: any, _next: any) => {
+        res.status(err.status).json({ errors: err.errors });
+      });
+
+      const response = await request(app).get('/users?limit=200');
+      expect(response.status).toBe(400);
+      expect(response.body.errors[0].path).toEqual(['limit']);
+      expect(response.body.errors[0].location).toBe('query.limit');
+    });
+
+    it('should report issues from every request part at once', async () => {
+      app.use(express.json());
+      app.post('/users/:id', {
+        params: z.object({ id: z.string().uuid() }),
+        query: querySchema,
+        body: z.object({ email: z.string().email() })
+      }, (req, res) => {
+        res.json({});
+      });
+      app.use((err: any, req: any, res: any, _next: any) => {
+        res.status(err.status).json({ errors: err.errors });
+      });
+
+      const response = await request(app)
+        .post('/users/not-a-uuid?limit=200')
+        .send({ email: 'invalid' });
+
+      expect(response.status).toBe(400);
+      expect(response.body.errors.map((issue: any) => issue.location)).toEqual([
+        'body.email',
+        'params.id',
+        'query.limit'
+      ]);
+    });
+
+    it('should format errors with a registry-level formatter', async () => {
+      const { app } = plus(express(), {
+        formatValidationError: {
+          status: 422,
+          format: ({ issues, parts }) => ({ parts, count: issues.length })
+        }
+      });
+
+      app.get({ path: '/users', query: querySchema }, (req, res) => {
+        res.json({});
+      });
+
+      const response = await request(app).get('/users?limit=200');
+      expect(response.status).toBe(422);
+      expect(response.body).toEqual({ parts: ['query'], count: 1 });
+    });
+
+    it('should let a route-level handler override the registry formatter', async () => {
+      const { app } = plus(express(), {
+        formatValidationError: { format: () => ({ registry: true }) }
+      });
+
+      app.get({
+        path: '/users',
+        query: querySchema,
+        onValidationError: ({ error, req }, res) => {
+          res.status(418).json({ path: error.issues[0].path, url: req.path });
+        }
+      }, (req, res) => {
+        res.json({});
+      });
+
+      const response = await request(app).get('/users?limit=200');
+      expect(response.status).toBe(418);
+      expect(response.body).toEqual({ path: ['query', 'limit'], url: '/users' });
+    });
+
+    it('should document the formatter schema as the validation error response', () => {
+      const { app, registry } = plus(express(), {
+        formatValidationError: {
+          description: 'Invalid request',
+          schema: z.object({ message: z.string() }),
+          format: () => ({ message: 'Invalid request' })
+        }
+      });
+
+      app.get({ path: '/users', query: querySchema }, (req, res) => {
+        res.json({});
+      });
+
+      const doc = registry.generateOpenAPIDocument();
+      const badRequest = doc.paths['/users'].get.responses['400'];
+      expect(badRequest.description).toBe('Invalid request');
+      expect(badRequest.content['application/json'].schema.properties).toHaveProperty('message');
+    });
+  });
+
+  describe('Response Validation', () => {
+    const userResponses = {
+      200: {
+        description: 'User',
+        content: {
+          'application/json': {
+            schema: z.object({ id: z.string(), name: z.string() })
+          }
+        }
+      }
+    };
+
+    it('should forward an error when the payload does not match in throw mode', async () => {
+      const { app } = plus(express(), { validateResponses: 'throw' });
+
+      app.get({
+        path: '/users/1',
+        responses: userResponses
+      }, (req, res) => {
+        res.json({ id: 1 });
+      });
+
+      const response = await request(app).get('/users/1');
+      expect(response.status).toBe(500);
+    });
+
+    it('should send matching payloads unchanged', async () => {
+      const { app } = plus(express(), { validateResponses: true });
+
+      app.get({
+        path: '/users/1',
+        responses: userResponses
+      }, (req, res) => {
+        res.json({ id: '1', name: 'John' });
+      });
+
+      const response = await request(app).get('/users/1');
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ id: '1', name: 'John' });
+    });
+
+    it('should log and still send the payload in log mode', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const { app } = plus(express(), { validateResponses: 'log' });
+
+      app.get({
+        path: '/users/1',
+        responses: userResponses
+      }, (req, res) => {
+        res.send({ id: '1' });
+      });
+
+      const response = await request(app).get('/users/1');
+      expect(response.status).toBe(200);
+      expect(warn).toHaveBeenCalledTimes(1);
+      warn.mockRestore();
+    });
+
+    it('should report failures through a hook', async () => {
+      const failures: any[] = [];
+      const { app } = plus(express(), {
+        validateResponses: (failure) => failures.push(failure)
+      });
+
+      app.get({
+        path: '/users/:id',
+        responses: userResponses
+      }, (req, res) => {
+        res.status(200).type('application/json').send(JSON.stringify({ id: '1', name: 2 }));
+      });
+
+      const response = await request(app).get('/users/1');
+      expect(response.status).toBe(200);
+      expect(failures).toHaveLength(1);
+      expect(failures[0].statusCode).toBe(200);
+      expect(failures[0].path).toBe('/users/:id');
+      expect(failures[0].error.issues[0].path).toEqual(['name']);
+    });
+
+    it('should skip status codes without a declared schema', async () => {
+      const { app } = plus(express(), { validateResponses: true });
+
+      app.get({
+        path: '/users/1',
+        responses: userResponses
+      }, (req, res) => {
+        res.status(404).json({ message: 'Not found' });
+      });
+
+      const response = await request(app).get('/users/1');
+      expect(response.status).toBe(404);
+    });
+
+    it('should send typed responses for each declared status', async () => {
+      app.get('/users/:id', {
+        responses: {
+          ...userResponses,
+          404: {
+            description: 'Not found',
+            content: { 'application/json': { schema: z.object({ message: z.string() }) } }
+          }
+        }
+      }, (req, res) => {
+        if (req.params.id !== '1') {
+          res.status(404).json({ message: 'Not found' });
+          return;
+        }
+        res.status(200).json({ id: '1', name: 'John' });
+      });
+
+      const found = await request(app).get('/users/1');
+      expect(found.body).toEqual({ id: '1', name: 'John' });
+
+      const missing = await request(app).get('/users/2');
+      expect(missing.status).toBe(404);
+      expect(missing.body).toEqual({ message: 'Not found' });
+    });
+
+    it('should allow routes to opt out', async () => {
+      const { app } = plus(express(), { validateResponses: true });
+
+      app.get({
+        path: '/users/1',
+        responses: userResponses,
+        validateResponses: false
+      }, (req, res) => {
+        res.json({ id: 1 });
+      });
+
+      const response = await request(app).get('/users/1');
+      expect(response.status).toBe(200);
+    });
+  });
+
+  describe('Unified API', () => {
+    it('should work with Express app', () => {
+      const expressApp = express();
+      const result = plus(expressApp);
+
+      expect(result).toHaveProperty('app');
+      expect(result).toHaveProperty('registry');
+      expect(result.app).toBe(expressApp);
+    });
+
+    it('should create new router when called with no arguments', () => {
+      const result = plus();
+
+      expect(result).toHaveProperty('router');
+      expect(result).toHaveProperty('registry');
+      expect(result.router).toBeDefined();
+    });
+
+    it('should work with existing Express router', () => {
+      const expressRouter = Router();
+      const result = plus(expressRouter);
+
+      expect(result).toHaveProperty('router');
+      expect(result).toHaveProperty('registry');
+      expect(result.router).toBe(expressRouter);
+    });
+  });
+
+  describe('Router Mounting', () => {
+    it('should mount routers at specified paths', async () => {
+      const { router: usersRouter } = plus();
+
+      usersRouter.get({
+        path: '/list',
+        summary: 'Get users'
+      }, (req, res) => {
+        res.json({ users: [] });
+      });
+
+      app.use('/api/users', usersRouter);
+
+      const response = await request(app).get('/api/users/list');
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ users: [] });
+    });
+
+    it('should handle nested routers', async () => {
+      const { router: usersRouter } = plus();
+      const { router: adminRouter } = plus();
+
+      adminRouter.get({
+        path: '/stats',
+        summary: 'Get stats'
+      }, (req, res) => {
+        res.json({ stats: 'admin stats' });
+      });
+
+      usersRouter.use('/admin', adminRouter);
+      app.use('/api', usersRouter);
+
+      const response = await request(app).get('/api/admin/stats');
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ stats: 'admin stats' });
+    });
+  });
+
+  describe('Declared Middleware', () => {
+    const requireUser = defineMiddleware<{ user: { id: string } }>({
+      headers: z.object({ 'x-user-id': z.string().optional() }),
+      responses: {
+        401: { description: 'Not signed in' },
+        403: { description: 'Not allowed' }
+      },
+      handler: (req, res, next) => {
+        if (!req.parsed.headers['x-user-id']) {
+          res.status(401).json({ error: 'Not signed in' });
+          return;
+        }
+        req.user = { id: req.parsed.headers['x-user-id'] };
+        next();
+      }
+    });
+
+    it('should run middleware after validation with parsed values', async () => {
+      const order: string[] = [];
+      const trace = defineMiddleware({
+        handler: (req, res, next) => {
+          order.push(`trace:${typeof (req.parsed.query as any).limit}`);
+          next();
+        }
+      });
+
+      app.get({
+        path: '/orders',
+        query: z.object({ limit: z.coerce.number() }),
+        middleware: [trace, requireUser]
+      }, (req, res, next) => {
+        order.push('first');
+        next();
+      }, (req, res) => {
+        order.push('second');
+        res.json({ user: req.user.id, limit: req.parsed.query.limit });
+      });
+
+      const response = await request(app).get('/orders?limit=5').set('x-user-id', 'u1');
+      expect(response.body).toEqual({ user: 'u1', limit: 5 });
+      expect(order).toEqual(['trace:number', 'first', 'second']);
+
+      const unauthorized = await request(app).get('/orders?limit=5');
+      expect(unauthorized.status).toBe(401);
+
+      // Validation fails before any middleware runs
+      order.length = 0;
+      const invalid = await request(app).get('/orders?limit=abc').set('x-user-id', 'u1');
+      expect(invalid.status).toBe(400);
+      expect(order).toEqual([]);
+    });
+
+    it('should forward errors from async middleware', async () => {
+      const failing = defineMiddleware({
+        handler: async () => {
+          throw Object.assign(new Error('Lookup failed'), { status: 503 });
+        }
+      });
+
+      app.route('/status').get({ middleware: [failing] }, (req, res) => res.json({}));
+      app.use((err: any, req: any, res: any, _next: any) => {
+        res.status(err.status).json({ message: err.message });
+      });
+
+      const response = await request(app).get('/status');
+      expect(response.status).toBe(503);
+      expect(response.body).toEqual({ message: 'Lookup failed' });
+    });
+
+    it('should document the headers and responses of middleware', () => {
+      app.get({
+        path: '/orders',
+        middleware: [requireUser],
+        responses: {
+          200: { description: 'Orders' },
+          403: { description: 'Not a customer' }
+        }
+      }, (req, res) => res.json([]));
+
+      const operation = registry.generateOpenAPIDocument().paths['/orders'].get;
+      expect(operation.parameters).toContainEqual(
+        expect.objectContaining({ name: 'x-user-id', in: 'header' })
+      );
+      expect(Object.keys(operation.responses)).toEqual(['200', '401', '403']);
+      expect(operation.responses['401'].description).toBe('Not signed in');
+      // The route's own responses take precedence
+      expect(operation.responses['403'].description).toBe('Not a customer');
+    });
+  });
+
+  describe('Route Chaining', () => {
+    it('should validate and document methods chained on app.route()', async () => {
+      app.use(express.json());
+      app.route('/users/:id')
+        .get({
+          summary: 'Get user',
+          params: z.object({ id: z.coerce.number() })
+        }, (req, res) => {
+          res.json({ id: req.parsed.params.id });
+        })
+        .put({
+          summary: 'Replace user',
+          params: z.object({ id: z.coerce.number() }),
+          body: z.object({ name: z.string() })
+        }, (req, res) => {
+          res.json({ id: req.parsed.params.id, name: req.parsed.body.name });
+        });
+
+      const found = await request(app).get('/users/7');
+      expect(found.body).toEqual({ id: 7 });
+
+      const replaced = await request(app).put('/users/7').send({ name: 'Ada' });
+      expect(replaced.body).toEqual({ id: 7, name: 'Ada' });
+
+      const invalid = await request(app).put('/users/7').send({});
+      expect(invalid.status).toBe(400);
+
+      const doc = registry.generateOpenAPIDocument();
+      expect(doc.paths['/users/{id}'].get.summary).toBe('Get user');
+      expect(doc.paths['/users/{id}'].put.summary).toBe('Replace user');
+    });
+
+    it('should support route() on mounted routers', () => {
+      const { router: usersRouter } = plus();
+      usersRouter.route('/:id')
+        .get({ summary: 'Get user' }, (req, res) => res.json({}))
+        .delete((req, res) => res.status(204).end());
+      app.use('/users', usersRouter);
+
+      const doc = registry.generateOpenAPIDocument();
+      expect(doc.paths['/users/{id}'].get.summary).toBe('Get user');
+      expect(doc.paths['/users/{id}'].delete).toBeUndefined();
+    });
+
+    it('should document all() for every method', async () => {
+      app.all({
+        path: '/ping',
+        operationId: 'ping',
+        query: z.object({ echo: z.string() })
+      }, (req, res) => {
+        res.json({ method: req.method, echo: req.parsed.query.echo });
+      });
+      app.route('/status').all({ summary: 'Status' }, (req, res) => res.json({}));
+
+      const posted = await request(app).post('/ping?echo=hi');
+      expect(posted.body).toEqual({ method: 'POST', echo: 'hi' });
+
+      const invalid = await request(app).delete('/ping');
+      expect(invalid.status).toBe(400);
+
+      const doc = registry.generateOpenAPIDocument();
+      const methods = ['get', 'post', 'put', 'delete', 'patch', 'options', 'head'];
+      expect(Object.keys(doc.paths['/ping'])).toEqual(methods);
+      expect(doc.paths['/ping'].post.operationId).toBe('ping_post');
+      expect(Object.keys(doc.paths['/status'])).toEqual(methods);
+    });
+  });
+
+  describe('Express 5 Paths', () => {
+    it('should document optional groups as separate paths', async () => {
+      app.get({
+        path: '/reports/:id{.:format}',
+        operationId: 'getReport',
+        params: z.object({ id: z.string(), format: z.enum(['csv', 'json']).optional() })
+      }, (req, res) => {
+        res.json(req.parsed.params);
+      });
+
+      const response = await request(app).get('/reports/5.csv');
+      expect(response.body).toEqual({ id: '5', format: 'csv' });
+
+      const doc = registry.generateOpenAPIDocument();
+      expect(Object.keys(doc.paths)).toEqual(['/reports/{id}', '/reports/{id}.{format}']);
+
+      const withoutFormat = doc.paths['/reports/{id}'].get;
+      const withFormat = doc.paths['/reports/{id}.{format}'].get;
+      expect(withoutFormat.operationId).toBe('getReport');
+      expect(withFormat.operationId).toBe('getReport_1');
+      expect(withoutFormat.parameters.map((param: any) => param.name)).toEqual(['id']);
+      expect(withFormat.parameters.map((param: any) => param.name)).toEqual(['id', 'format']);
+    });
+
+    it('should document wildcards and derive params that are not declared', async () => {
+      app.get({ path: '/files/*filePath' }, (req, res) => {
+        res.json({ segments: req.params.filePath });
+      });
+      app.get({
+        path: '/orgs/:orgId/users/:userId',
+        params: z.object({ userId: z.coerce.number() })
+      }, (req, res) => {
+        res.json({});
+      });
+
+      const response = await request(app).get('/files/docs/readme.md');
+      expect(response.body).toEqual({ segments: ['docs', 'readme.md'] });
+
+      const doc = registry.generateOpenAPIDocument();
+      expect(doc.paths['/files/{filePath}'].get.parameters).toEqual([
+        { name: 'filePath', in: 'path', required: true, schema: { type: 'string' } }
+      ]);
+      expect(doc.paths['/orgs/{orgId}/users/{userId}'].get.parameters.map((param: any) => param.name))
+        .toEqual(['userId', 'orgId']);
+    });
+
+    it('should translate quoted param names and escaped characters', () => {
+      app.get({ path: '/users/:"user-id"' }, (req, res) => res.json({}));
+      app.get({ path: '/price\\(usd\\)' }, (req, res) => res.json({}));
+
+      const doc = registry.generateOpenAPIDocument();
+      expect(Object.keys(doc.paths)).toEqual(['/users/{user-id}', '/price(usd)']);
+      expect(doc.paths['/users/{user-id}'].get.parameters[0].name).toBe('user-id');
+    });
+
+    it('should document routers mounted at paths with optional groups', () => {
+      const { router: itemsRouter } = plus();
+      itemsRouter.get({ path: '/items', operationId: 'listItems' }, (req, res) => res.json([]));
+      app.use('/api{/v:version}', itemsRouter);
+
+      const doc = registry.generateOpenAPIDocument();
+      expect(Object.keys(doc.paths)).toEqual(['/api/items', '/api/v{version}/items']);
+      expect(doc.paths['/api/v{version}/items'].get.operationId).toBe('listItems_1');
+      expect(doc.paths['/api/items'].get.parameters).toBeUndefined();
+    });
+
+    it('should pass warnings to onWarning when given', () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const onWarning = vi.fn();
+
+      try {
+        const { app: warnedApp } = plus(express(), { onWarning });
+        const { router: itemsRouter } = plus();
+        warnedApp.get(/^\/legacy$/, {}, (req, res) => res.json({}));
+        warnedApp.use('/literal\\{braces\\}', itemsRouter);
+
+        expect(onWarning.mock.calls.map(([message]) => message)).toEqual([
+          'Cannot document GET /^\\/legacy$/ in OpenAPI: RegExp paths cannot be represented',
+          'Cannot document routes mounted at /literal\\{braces\\} in OpenAPI: Literal { and } cannot appear in an OpenAPI path'
+        ]);
+        expect(warn).not.toHaveBeenCalled();
+      } finally {
+        warn.mockRestore();
+      }
+    });
+
+    it('should document Express 4 path syntax', () => {
+      // Express 5 rejects these paths, so the endpoints are created without registering them
+      const legacyRegistry = createRegistry();
+      legacyRegistry.createEndpoint('get', '/users/:id?', { operationId: 'getUsers' });
+      legacyRegistry.createEndpoint('get', '/api/:version(v1|v2)/status', {});
+      legacyRegistry.createEndpoint('get', '/files/*', {});
+
+      const doc = legacyRegistry.generateOpenAPIDocument();
+      expect(Object.keys(doc.paths)).toEqual(['/users', '/users/{id}', '/api/{version}/status', '/files/{0}']);
+      expect(doc.paths['/users/{id}'].get.operationId).toBe('getUsers_1');
+      expect(doc.paths['/files/{0}'].get.parameters).toEqual([
+        { name: '0', in: 'path', required: true, schema: { type: 'string' } }
+      ]);
+    });
+
+    it('should validate but not document paths OpenAPI cannot represent', async () => {
+      const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+      try {
+        app.get(/^\/legacy\/(\d+)$/, { query: z.object({ q: z.string() }) }, (req, res) => {
+          res.json({ q: req.parsed.query.q });
+        });
+        app.get({ path: '/literal\\{braces\\}' }, (req, res) => res.json({}));
+
+        expect(warn).toHaveBeenCalledTimes(2);
+        expect(warn.mock.calls[0][0]).toContain('Cannot document GET /^\\/legacy\\/(\\d+)$/ in OpenAPI');
+        expect(warn.mock.calls[1][0]).toContain('Literal { and }');
+      } finally {
+        warn.mockRestore();
+      }
+
+      const valid = await request(app).get('/legacy/1?q=test');
+      expect(valid.body).toEqual({ q: 'test' });
+      const invalid = await request(app).get('/legacy/1');
+      expect(invalid.status).toBe(400);
+
+      expect(registry.generateOpenAPIDocument().paths).toEqual({});
+    });
+  });
+
+  describe('Mount Params', () => {
+    it('should merge inferred mount params into child route params', async () => {
+      const { router: membersRouter } = plus();
+
+      membersRouter.get({
+        path: '/members/:memberId',
+        params: z.object({ memberId: z.coerce.number() })
+      }, (req, res) => {
+        res.json(req.parsed.params);
+      });
+
+      app.use('/orgs/:orgId', membersRouter);
+
+      const response = await request(app).get('/orgs/acme/members/5');
+      expect(response.status).toBe(200);
+      expect(response.body).toEqual({ orgId: 'acme', memberId: 5 });
+
+      const doc = registry.generateOpenAPIDocument();
+      const operation = doc.paths['/orgs/{orgId}/members/{memberId}'].get;
+      expect(operation.parameters.filter((param: any) => param.in === 'path').map((param: any) => param.name))
+        .toEqual(['orgId', 'memberId']);
+    });
+
+    it('should validate declared mount params in child routes', async () => {
+      const { router: projectsRouter } = plus(Router(), {
+        mountParams: z.object({ orgId: z.coerce.number().int() })
+      });
+
+      projectsRouter.get({ path: '/projects' }, (req, res) => {
+        res.json({ orgId: req.parsed.params.orgId });
+      });
+
+      app.use('/orgs/:orgId', projectsRouter);
+      app.use((err: any, req: any, res: any, _next: any) => {
+        res.status(err.status).json({ errors: err.errors });
+      });
+
+      const valid = await request(app).get('/orgs/42/projects');
+      expect(valid.status).toBe(200);
+      expect(valid.body).toEqual({ orgId: 42 });
+
+      const invalid = await request(app).get('/orgs/acme/projects');
+      expect(invalid.status).toBe(400);
+      expect(invalid.body.errors[0].location).toBe('params.orgId');
+
+      const doc = registry.generateOpenAPIDocument();
+      const [orgId] = doc.paths['/orgs/{orgId}/projects'].get.parameters;
+      expect(orgId).toMatchObject({ name: 'orgId', in: 'path', schema: { type: 'integer' } });
+    });
+
+    it('should document params of every level of nested mounts', async () => {
+      const { router: orgsRouter, registry: orgsRegistry } = plus();
+      const { router: tasksRouter } = plus();
+
+      const { router: settingsRouter } = plus();
+
+      tasksRouter.get({ path: '/tasks' }, (req, res) => res.json(req.parsed.params));
+      settingsRouter.get({ path: '/' }, (req, res) => res.json(req.parsed.params));
+      orgsRouter.use('/projects/:projectId', tasksRouter);
+      app.use('/orgs/:orgId', orgsRouter);
+      // Mounted below a parameterized path after the parent was mounted
+      orgsRouter.use('/settings', settingsRouter);
+
+      const response = await request(app).get('/orgs/acme/projects/7/tasks');
+      expect(response.body).toEqual({ orgId: 'acme', projectId: '7' });
+
+      const settings = await request(app).get('/orgs/acme/settings');
+      expect(settings.body).toEqual({ orgId: 'acme' });
+
+      const doc = registry.generateOpenAPIDocument();
+      const parameters = doc.paths['/orgs/{orgId}/projects/{projectId}/tasks'].get.parameters;
+      expect(parameters.map((param: any) => param.name)).toEqual(['orgId', 'projectId']);
+
+      // The orgs router documents only the params below its own mount point
+      const orgsDoc = orgsRegistry.generateOpenAPIDocument();
+      expect(orgsDoc.paths['/projects/{projectId}/tasks'].get.parameters.map((param: any) => param.name))
+        .toEqual(['projectId']);
+    });
+  });
+
+  describe('Spec-First', () => {
+    const spec = {
+      openapi: '3.0.3',
+      info: { title: 'Users API', version: '2.0.0' },
+      paths: {
+        '/users/{id}': {
+          parameters: [{ name: 'id', in: 'path', required: true, schema: { type: 'integer', minimum: 1 } }],
+          get: {
+            operationId: 'getUser',
+            parameters: [{ name: 'fields', in: 'query', schema: { type: 'array', items: { type: 'string' } } }],
+            responses: {
+              200: {
+                description: 'The user',
+                content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } }
+              }
+            }
+          }
+        },
+        '/users': {
+          post: {
+            operationId: 'createUser',
+            requestBody: {
+              required: true,
+              content: { 'application/json': { schema: { $ref: '#/components/schemas/User' } } }
+            },
+            responses: { 201: { description: 'Created' } }
+          }
+        }
+      },
+      components: {
+        schemas: {
+          User: {
+            type: 'object',
+            required: ['name'],
+            properties: {
+              name: { type: 'string', minLength: 1 },
+              email: { type: 'string', format: 'email', nullable: true }
+            }
+          }
+        }
+      }
+    };
+
+    function createSpecApp() {
+      const result = plus(express(), { spec });
+      result.app.use(express.json());
+      return result;
+    }
+
+    function handleErrors(specApp: any): void {
+      specApp.use((err: any, req: any, res: any, _next: any) => {
+        res.status(err.status || 500).json({ message: err.message });
+      });
+    }
+
+    it('should validate implemented operations with the converted schemas', async () => {
+      const { app: specApp } = createSpecApp();
+
+      specApp.implement('getUser', (req, res) => {
+        res.json({ id: req.parsed.params.id, fields: req.parsed.query.fields });
+      });
+      specApp.implement('createUser', (req, res) => {
+        res.status(201).json(req.parsed.body);
+      });
+      handleErrors(specApp);
+
+      const found = await request(specApp).get('/users/7?fields=name');
+      expect(found.status).toBe(200);
+      expect(found.body).toEqual({ id: 7, fields: ['name'] });
+
+      expect((await request(specApp).get('/users/0')).status).toBe(400);
+      expect((await request(specApp).post('/users').send({ email: 'ada@example.com' })).status).toBe(400);
+
+      const created = await request(specApp).post('/users').send({ name: 'Ada', email: null });
+      expect(created.status).toBe(201);
+      expect(created.body).toEqual({ name: 'Ada', email: null });
+    });
+
+    it('should document implemented operations with the document info and components', () => {
+      const { app: specApp, registry: specRegistry } = createSpecApp();
+      specApp.implement('getUser', (req, res) => res.json({}));
+
+      const doc = specRegistry.generateOpenAPIDocument();
+      expect(doc.openapi).toBe('3.0.3');
+      expect(doc.info.title).toBe('Users API');
+      expect(doc.paths['/users/{id}'].get.operationId).toBe('getUser');
+      expect(doc.paths['/users/{id}'].get.responses['200'].content['application/json'].schema)
+        .toEqual({ $ref: '#/components/schemas/User' });
+      expect(doc.components.schemas.User.required).toEqual(['name']);
+    });
+
+    it('should report unimplemented operations', () => {
+      const { app: specApp, registry: specRegistry } = createSpecApp();
+      expect(specRegistry.getUnimplementedOperations().map((operation) => operation.operationId))
+        .toEqual(['getUser', 'createUser']);
+
+      specApp.implement('getUser', (req, res) => res.json({}));
+      expect(specRegistry.getUnimplementedOperations()).toEqual([
+        { operationId: 'createUser', method: 'post', path: '/users' }
+      ]);
+    });
+
+    it('should throw for unknown operationIds', () => {
+      const { app: specApp } = createSpecApp();
+      expect(() => specApp.implement('deleteUser', (req, res) => res.end()))
+        .toThrow('Cannot implement deleteUser');
+    });
+
+    it('should keep operation-level security', () => {
+      const { app: specApp, registry: specRegistry } = plus(express(), {
+        spec: {
+          ...spec,
+          security: [{ ApiKeyAuth: [] }],
+          paths: { ...spec.paths, '/health': { get: { operationId: 'getHealth', security: [], responses: { 200: { description: 'OK' } } } } }
+        }
+      });
+      specApp.implement('getHealth', (req, res) => res.json({}));
+      specApp.implement('getUser', (req, res) => res.json({}));
+
+      const doc = specRegistry.generateOpenAPIDocument();
+      expect(doc.security).toEqual([{ ApiKeyAuth: [] }]);
+      expect(doc.paths['/health'].get.security).toEqual([]);
+      expect(doc.paths['/users/{id}'].get.security).toBeUndefined();
+    });
+
+    it('should pass operations without an operationId to onWarning', () => {
+      const onWarning = vi.fn();
+      const { registry: specRegistry } = plus(express(), {
+        spec: { ...spec, paths: { ...spec.paths, '/health': { get: { responses: { 200: { description: 'OK' } } } } } },
+        onWarning
+      });
+
+      expect(onWarning).toHaveBeenCalledWith('Cannot implement GET /health: the operation has no operationId');
+      expect(specRegistry.getUnimplementedOperations().map((operation) => operation.operationId))
+        .toEqual(['getUser', 'createUser']);
+    });
+
+    it('should accept additional endpoint options', async () => {
+      const { app: specApp } = createSpecApp();
+      const requireTenant = defineMiddleware({
+        headers: z.object({ 'x-tenant': z.string() }),
+        handler: (req, res, next) => {
+          (req as any).tenant = req.parsed.headers['x-tenant'];
+          next();
+        }
+      });
+
+      specApp.implement('getUser', { middleware: [requireTenant] as const }, (req, res) => {
+        res.json({ tenant: (req as any).tenant });
+      });
+
+      const response = await request(specApp).get('/users/1').set('x-tenant', 'acme');
+      expect(response.body).toEqual({ tenant: 'acme' });
+    });
   });
 
-  describe('Unified API', () => {
-    it('should work with Express app', () => {
-      const expressApp = express();
-      const result = plus(expressApp);
+  describe('Typed Client', () => {
+    const UserSchema = z.object({ id: z.number(), name: z.string() });
+
+    // Serve an app on a free port and call it with a client
+    async function withServer(api: any, callback: (baseUrl: string) => Promise<void>): Promise<void> {
+      const server = api.listen(0);
+      await new Promise((resolve) => server.once('listening', resolve));
+      try {
+        await callback(`http://127.0.0.1:${server.address().port}`);
+      } finally {
+        await new Promise((resolve) => server.close(resolve));
+      }
+    }
+
+    function createApi() {
+      const { app: clientApp, registry: clientRegistry } = plus(express());
+      const { router: usersRouter } = plus();
+      clientApp.use(express.json());
+
+      const users = usersRouter
+        .get({
+          path: '/:id',
+          operationId: 'getUser',
+          params: z.object({ id: z.coerce.number() }),
+          query: z.object({ fields: z.array(z.string()).optional() }),
+          responses: {
+            200: { description: 'The user', content: { 'application/json': { schema: UserSchema } } },
+            404: { description: 'Not found' }
+          }
+        }, (req, res) => {
+          if (req.parsed.params.id === 0) {
+            res.status(404).end();
+            return;
+          }
+          res.json({ id: req.parsed.params.id, name: (req.parsed.query.fields || []).join(',') });
+        })
+        .post('/', {
+          body: z.object({ name: z.string() }),
+          responses: { 201: { description: 'Created', content: { 'application/json': { schema: UserSchema } } } }
+        }, (req, res) => {
+          res.status(201).json({ id: 1, name: req.parsed.body.name });
+        });
 
-      expect(result).toHaveProperty('app');
-      expect(result).toHaveProperty('registry');
-      expect(result.app).toBe(expressApp);
+      const api = clientApp
+        .get({ path: '/files/*filePath' }, (req, res) => {
+          res.type('text').send(String(req.params.filePath));
+        })
+        .use('/users', users);
+
+      return { api, clientRegistry };
+    }
+
+    it('should call routes by method and path', async () => {
+      const { api } = createApi();
+
+      await withServer(api, async (baseUrl) => {
+        const client = createClient<typeof api>(baseUrl);
+
+        const found = await client['GET /users/:id']({ params: { id: 7 }, query: { fields: ['a', 'b'] } });
+        expect(found.status).toBe(200);
+        if (found.status === 200) {
+          expect(found.data).toEqual({ id: 7, name: 'a,b' });
+        }
+
+        const created = await client['POST /users']({ body: { name: 'Ada' } });
+        expect(created).toMatchObject({ status: 201, ok: true, data: { id: 1, name: 'Ada' } });
+
+        const missing = await client['GET /users/:id']({ params: { id: 0 } });
+        expect(missing).toMatchObject({ status: 404, ok: false, data: undefined });
+
+        const file = await client['GET /files/*filePath']({ params: { filePath: ['docs', 'a b.txt'] } });
+        expect(file.data).toBe('docs,a b.txt');
+      });
     });
 
-    it('should create new router when called with no arguments', () => {
-      const result = plus();
+    it('should call routes by operationId with the OpenAPI document', async () => {
+      const { api, clientRegistry } = createApi();
 
-      expect(result).toHaveProperty('router');
-      expect(result).toHaveProperty('registry');
-      expect(result.router).toBeDefined();
+      await withServer(api, async (baseUrl) => {
+        await expect(createClient<typeof api>(baseUrl).getUser({ params: { id: 1 } }))
+          .rejects.toThrow('pass the OpenAPI document');
+
+        const client = createClient<typeof api>(baseUrl, fetch, { document: clientRegistry.generateOpenAPIDocument() });
+        const found = await client.getUser({ params: { id: 3 } });
+        expect(found).toMatchObject({ status: 200, data: { id: 3, name: '' } });
+      });
+    });
+  });
+
+  describe('Contracts', () => {
+    const contract = defineContract({
+      getUser: {
+        method: 'get',
+        path: '/users/:id',
+        params: z.object({ id: z.coerce.number() }),
+        responses: {
+          200: { description: 'The user', content: { 'application/json': { schema: z.object({ id: z.number() }) } } }
+        }
+      },
+      createUser: {
+        method: 'post',
+        path: '/users',
+        operationId: 'addUser',
+        body: z.object({ name: z.string() })
+      }
     });
 
-    it('should work with existing Express router', () => {
-      const expressRouter = Router();
-      const result = plus(expressRouter);
+    it('should register and validate every endpoint of a contract', async () => {
+      const { router } = plus();
+      router.implement(contract, {
+        getUser: (req, res) => {
+          res.json({ id: req.parsed.params.id });
+        },
+        createUser: [
+          (req, res, next) => next(),
+          (req, res) => {
+            res.status(201).json(req.parsed.body);
+          }
+        ]
+      });
 
-      expect(result).toHaveProperty('router');
-      expect(result).toHaveProperty('registry');
-      expect(result.router).toBe(expressRouter);
+      app.use(express.json());
+      app.use(router);
+      app.use((err: any, req: any, res: any, _next: any) => {
+        res.status(err.status || 500).json({ message: err.message });
+      });
+
+      const found = await request(app).get('/users/4');
+      expect(found.status).toBe(200);
+      expect(found.body).toEqual({ id: 4 });
+
+      expect((await request(app).get('/users/abc')).status).toBe(400);
+      expect((await request(app).post('/users').send({ name: 'Ada' })).status).toBe(201);
+      expect((await request(app).post('/users').send({})).status).toBe(400);
+
+      const doc = registry.generateOpenAPIDocument();
+      expect(doc.paths['/users/{id}'].get.operationId).toBe('getUser');
+      expect(doc.paths['/users'].post.operationId).toBe('addUser');
+    });
+
+    it('should reject missing and unknown handlers', () => {
+      const { router } = plus();
+      const implement = router.implement as any;
+
+      expect(() => implement(contract, { getUser: () => undefined }))
+        .toThrow('Missing handlers for createUser');
+      expect(() => implement(contract, { getUser: () => undefined, createUser: () => undefined, deleteUser: () => undefined }))
+        .toThrow('Cannot implement deleteUser: not in the contract');
+    });
+
+    it('should let clients call endpoints by name', async () => {
+      const fetchImpl = vi.fn(async () => new Response(JSON.stringify({ id: 9 }), {
+        status: 200,
+        headers: { 'content-type': 'application/json' }
+      }));
+
+      const client = createClient<typeof contract>('http://api.test/v1/', fetchImpl, { contract });
+      const result = await client.getUser({ params: { id: 9 } });
+
+      expect(fetchImpl).toHaveBeenCalledWith('http://api.test/v1/users/9', expect.objectContaining({ method: 'GET' }));
+      expect(result).toMatchObject({ status: 200, ok: true, data: { id: 9 } });
+    });
+
+    it('should call endpoints with an operationId by that operationId', async () => {
+      const fetchImpl = vi.fn(async () => new Response(null, { status: 201 }));
+
+      const client = createClient<typeof contract>('http://api.test', fetchImpl, { contract });
+      const result = await client.addUser({ body: { name: 'Ada' } });
+
+      expect(fetchImpl).toHaveBeenCalledWith('http://api.test/users', expect.objectContaining({ method: 'POST' }));
+      expect(result.status).toBe(201);
+      await expect((client as any).createUser({ body: { name: 'Ada' } })).rejects.toThrow('Unknown operationId createUser');
+    });
+
+    it('should reject endpoints without a valid method or path', () => {
+      expect(() => defineContract({ broken: { method: 'fetch' as any, path: '/x' } })).toThrow('invalid method');
+      expect(() => defineContract({ broken: { method: 'get', path: 'x' } })).toThrow('path starting with /');
     });
   });
 
-  describe('Router Mounting', () => {
-    it('should mount routers at specified paths', async () => {
-      const { router: usersRouter } = plus();
+  describe('Client Generation', () => {
+    // Type-check generated clients together, returning the diagnostics
+    async function compileClients(sources: string[]): Promise<string[]> {
+      const ts = await import('typescript');
+      const files = new Map(sources.map((source, index) => [`/generated/client${index}.ts`, source]));
+      const options = {
+        noEmit: true,
+        strict: true,
+        target: ts.ScriptTarget.ES2019,
+        module: ts.ModuleKind.CommonJS,
+        lib: ['lib.es2019.d.ts', 'lib.dom.d.ts'],
+        types: []
+      };
+
+      const host = ts.createCompilerHost(options);
+      const { getSourceFile, fileExists } = host;
+      host.getSourceFile = (name, languageVersion, ...rest) => files.has(name) ?
+        ts.createSourceFile(name, files.get(name) as string, languageVersion) :
+        getSourceFile.call(host, name, languageVersion, ...rest);
+      host.fileExists = (name) => files.has(name) || fileExists.call(host, name);
+
+      const program = ts.createProgram(Array.from(files.keys()), options, host);
+      return ts.getPreEmitDiagnostics(program).map((diagnostic) => ts.flattenDiagnosticMessageText(diagnostic.messageText, '\n'));
+    }
 
-      usersRouter.get({
-        path: '/list',
-        summary: 'Get users'
-      }, (req, res) => {
-        res.json({ users: [] });
+    beforeEach(() => {
+      const User = z.object({
+        id: z.number(),
+        name: z.string().describe('Full name'),
+        role: z.enum(['admin', 'member']).nullable()
+      }).openapi('User');
+
+      app.get({
+        path: '/users/:id',
+        operationId: 'getUser',
+        summary: 'Get a user',
+        params: z.object({ id: z.coerce.number() }),
+        query: z.object({ expand: z.string().optional() }),
+        responses: {
+          200: { description: 'The user', content: { 'application/json': { schema: User } } },
+          404: { description: 'Not found' }
+        }
+      }, (req, res) => res.end());
+
+      app.post({
+        path: '/users',
+        operationId: 'createUser',
+        body: User.omit({ id: true })
+      }, (req, res) => res.end());
+
+      app.delete({ path: '/users/:id' }, (req, res) => res.end());
+    });
+
+    it('should emit interfaces for components and a function per operationId', () => {
+      const onWarning = vi.fn();
+      const source = generateClient(registry.generateOpenAPIDocument(), { onWarning });
+      expect(onWarning).toHaveBeenCalledWith(expect.stringContaining('DELETE /users/{id}'));
+
+      expect(source).toContain('export interface User {\n  id: number;\n  /** Full name */\n  name: string;\n  role: "admin" | "member" | null;\n}');
+      expect(source).toContain('export interface GetUserInput {\n  params: {\n    id: number;\n  };\n  query?: {\n    expand?: string;\n  };\n}');
+      expect(source).toContain('export type GetUserResult =\n  | ClientResult<200, User>\n  | ClientResult<404, undefined>;');
+      expect(source).toContain('export function getUser(config: ClientConfig, input: GetUserInput): Promise<GetUserResult> {');
+      expect(source).toContain('export function createUser(config: ClientConfig, input: CreateUserInput)');
+      expect(source).not.toContain('import ');
+    });
+
+    it('should generate the same source for the same document', () => {
+      const first = generateClient(registry.generateOpenAPIDocument());
+      const second = generateClient(JSON.parse(JSON.stringify(registry.generateOpenAPIDocument())));
+
+      expect(second).toBe(first);
+    });
+
+    it('should send requests with the generated functions', async () => {
+      const source = generateClient(registry.generateOpenAPIDocument());
+
+      // Strip the types so the module can be evaluated
+      const ts = await import('typescript');
+      const { outputText } = ts.transpileModule(source, { compilerOptions: { module: ts.ModuleKind.CommonJS } });
+      const generated: any = {};
+      new Function('exports', outputText)(generated);
+
+      const fetchImpl = vi.fn(async () => new Response(JSON.stringify({ id: 5, name: 'Ada', role: null }), {
+        status: 200,
+        headers: { 'content-type': 'application/json' }
+      }));
+      const result = await generated.getUser({ baseUrl: 'http://api.test', fetch: fetchImpl }, {
+        params: { id: 5 },
+        query: { expand: 'teams' }
       });
 
-      app.use('/api/users', usersRouter);
+      expect(fetchImpl).toHaveBeenCalledWith('http://api.test/users/5?expand=teams', expect.objectContaining({ method: 'GET' }));
+      expect(result).toMatchObject({ status: 200, data: { id: 5, name: 'Ada' } });
+    });
 
-      const response = await request(app).get('/api/users/list');
-      expect(response.status).toBe(200);
-      expect(response.body).toEqual({ users: [] });
+    it('should compile when components and operations reuse the names of client helpers', async () => {
+      const object = { type: 'object', properties: { id: { type: 'string' } } };
+      const operation = (operationId: string) => ({
+        operationId,
+        requestBody: { required: true, content: { 'application/json': { schema: { $ref: '#/components/schemas/Headers' } } } },
+        responses: { 200: { description: 'OK', content: { 'application/json': { schema: { $ref: '#/components/schemas/ClientConfig' } } } } }
+      });
+      const source = generateClient({
+        openapi: '3.0.0',
+        info: { title: 'Names', version: '1.0.0' },
+        paths: {
+          '/request': { post: operation('request') },
+          '/text': { post: operation('toText') },
+          '/fetch': { post: operation('fetch') }
+        },
+        components: { schemas: { ClientConfig: object, Headers: object, OperationRequest: object } }
+      });
+
+      expect(source).toContain('export interface HeadersSchema {');
+      expect(source).toContain('export function fetchOperation(config: ClientConfig, input: FetchInput)');
+      expect(await compileClients([source, generateClient(registry.generateOpenAPIDocument())])).toEqual([]);
+    }, 20000);
+
+    it('should reject documents whose names would collide', () => {
+      const ok = { 200: { description: 'OK' } };
+      const info = { title: 'Names', version: '1.0.0' };
+
+      expect(() => generateClient({
+        openapi: '3.0.0',
+        info,
+        paths: { '/foo': { get: { operationId: 'foo', responses: ok } } },
+        components: { schemas: { FooInput: { type: 'object' } } }
+      })).toThrow('component "FooInput" and operation "foo" would both be named FooInput');
+
+      expect(() => generateClient({
+        openapi: '3.0.0',
+        info,
+        paths: {},
+        components: { schemas: { 'user-name': { type: 'string' }, user_name: { type: 'string' } } }
+      })).toThrow('component "user-name" and component "user_name" would both be named UserName');
     });
+  });
 
-    it('should handle nested routers', async () => {
-      const { router: usersRouter } = plus();
-      const { router: adminRouter } = plus();
+  describe('Contract Testing', () => {
+    beforeEach(() => {
+      const users: Record<string, any> = { 1: { id: 1, name: 'Ada', tags: ['admin'] }, 2: { id: 2, name: 'Bob', tags: [7] } };
+      const User = z.object({ id: z.number(), name: z.string(), tags: z.array(z.string()) });
 
-      adminRouter.get({
-        path: '/stats',
-        summary: 'Get stats'
+      const { router } = plus();
+      router.get({
+        path: '/me',
+        responses: { 200: { description: 'The current user', content: { 'application/json': { schema: User } } } }
       }, (req, res) => {
-        res.json({ stats: 'admin stats' });
+        res.type('text/plain').send('Ada');
+      });
+      router.get({
+        path: '/:id',
+        operationId: 'getUser',
+        params: z.object({ id: z.string() }),
+        responses: {
+          200: { description: 'The user', content: { 'application/json': { schema: User } } },
+          404: { description: 'Not found' }
+        }
+      }, (req, res) => {
+        const user = users[req.parsed.params.id];
+        if (req.parsed.params.id === 'teapot') {
+          (res as any).status(418).json({}); // Undeclared, for the test
+        } else if (user) {
+          res.json(user);
+        } else {
+          res.sendStatus(404);
+        }
       });
 
-      usersRouter.use('/admin', adminRouter);
-      app.use('/api', usersRouter);
+      router.post({
+        path: '/',
+        body: z.object({ name: z.string() }),
+        responses: { 201: { description: 'Created', content: { 'application/json': { schema: User } } } }
+      }, (req, res) => {
+        res.status(201).json({ id: 3, name: req.parsed.body.name, tags: [] });
+      });
 
-      const response = await request(app).get('/api/admin/stats');
+      app.use(express.json());
+      app.use('/users', router);
+    });
+
+    it('should run requests in-process and check them against the document', async () => {
+      const api = testApi(app, registry);
+
+      const found = await api.request('get', '/users/1');
+      expect(found.status).toBe(200);
+      expect(found.body).toEqual({ id: 1, name: 'Ada', tags: ['admin'] });
+      expect(found.operation).toEqual({ method: 'get', path: '/users/{id}', operationId: 'getUser' });
+
+      const missing = await api.request('get', '/users/9');
+      expect(missing.status).toBe(404);
+
+      const created = await api.request('post', '/users', { body: { name: 'Cy' } });
+      expect(created.body).toEqual({ id: 3, name: 'Cy', tags: [] });
+
+      await expect(api.request('get', '/users/2')).rejects.toThrow(
+        'GET /users/2 (GET /users/{id}) returned 200 with application/json not matching the documented schema:\n  - body.tags[0]:'
+      );
+      await expect(api.request('get', '/users/teapot')).rejects.toThrow('returned 418, which is not documented (documented: 200, 404)');
+      await expect(api.request('get', '/users/me')).rejects.toThrow('with text/plain, which is not documented for 200');
+      await expect(api.request('delete', '/users/1')).rejects.toThrow('DELETE /users/1 does not match a documented operation');
+    });
+
+    it('should report the documented responses never received', async () => {
+      const api = testApi(app, registry);
+      await api.request('get', '/users/1');
+
+      const coverage = api.coverage();
+      expect(coverage.total).toBe(4);
+      expect(coverage.covered).toBe(1);
+      expect(coverage.operations.find((operation) => operation.operationId === 'getUser')).toMatchObject({
+        statuses: ['200', '404'],
+        exercised: ['200'],
+        missing: ['404']
+      });
+      expect(coverage.missing).toContainEqual({ method: 'post', path: '/users', operationId: undefined, status: '201' });
+
+      expect(api.report()).toBe([
+        'Response coverage: 1 of 4 documented responses received (25%)',
+        'Never received:',
+        '  GET /users/me: 200',
+        '  GET /users/{id} (getUser): 404',
+        '  POST /users: 201'
+      ].join('\n'));
+    });
+  });
+
+  describe('Mock Server', () => {
+    const User = z.object({
+      id: z.number().int().positive(),
+      email: z.email(),
+      name: z.string().min(2).max(8),
+      role: z.enum(['admin', 'member']).nullable(),
+      joined: z.iso.datetime(),
+      nickname: z.string().openapi({ example: 'ada' })
+    }).openapi('User');
+    const responses = {
+      200: { description: 'The user', content: { 'application/json': { schema: User } } },
+      404: { description: 'Not found', content: { 'application/json': { schema: z.object({ message: z.string() }) } } }
+    };
+
+    it('should serve routes without handlers with generated data in mock mode', async () => {
+      const mocked = plus(express(), { mock: { seed: 7 } });
+      mocked.app.get({ path: '/users/:id', params: z.object({ id: z.coerce.number() }), responses });
+      mocked.app.delete({ path: '/users/:id', responses: { 204: { description: 'Deleted' } } }, (req, res) => {
+        res.set('x-handled', 'true').status(204).end(); // Not run in mock mode
+      });
+
+      const first = await request(mocked.app).get('/users/1');
+      expect(first.status).toBe(200);
+      expect(User.parse(first.body)).toEqual(first.body);
+      expect(first.body.nickname).toBe('ada');
+
+      const again = await request(mocked.app).get('/users/1');
+      expect(again.body).toEqual(first.body);
+
+      const other = await request(mocked.app).get('/users/2');
+      expect(other.body).not.toEqual(first.body);
+
+      const missing = await request(mocked.app).get('/users/1').set('Prefer', 'code=404');
+      expect(missing.status).toBe(404);
+      expect(typeof missing.body.message).toBe('string');
+
+      const undocumented = await request(mocked.app).get('/users/1').set('Prefer', 'code=418');
+      expect(undocumented.status).toBe(400);
+
+      // Requests are still validated
+      const invalid = await request(mocked.app).get('/users/abc');
+      expect(invalid.status).toBe(400);
+
+      const deleted = await request(mocked.app).delete('/users/1');
+      expect(deleted.status).toBe(204);
+      expect(deleted.headers['x-handled']).toBeUndefined();
+    });
+
+    it('should generate strings matching patterns and never send values the route rejects', async () => {
+      const mocked = plus(express(), { mock: true });
+      const respond = (schema: z.ZodType) => ({ 200: { description: 'OK', content: { 'application/json': { schema } } } });
+
+      mocked.app.get({ path: '/orders', responses: respond(z.object({ code: z.string().regex(/^[A-Z]{3}-\d{4}$/) })) });
+      mocked.app.get({ path: '/lookahead', responses: respond(z.object({ code: z.string().regex(/^(?=A)\w+$/) })) });
+      mocked.app.get({ path: '/refined', responses: respond(z.object({ code: z.string().refine((code) => code === 'fixed') })) });
+      mocked.app.use((err: any, req: any, res: any, _next: any) => {
+        res.status(err.status).json({ message: err.message });
+      });
+
+      const order = await request(mocked.app).get('/orders');
+      expect(order.status).toBe(200);
+      expect(order.body.code).toMatch(/^[A-Z]{3}-\d{4}$/);
+
+      const lookahead = await request(mocked.app).get('/lookahead');
+      expect(lookahead.status).toBe(501);
+      expect(lookahead.body.message).toBe(
+        'Cannot mock GET /lookahead (200): Cannot generate a string matching /^(?=A)\\w+$/, add an example to the schema'
+      );
+
+      const refined = await request(mocked.app).get('/refined');
+      expect(refined.status).toBe(501);
+      expect(refined.body.message).toContain('does not match the route\'s schema');
+    });
+
+    it('should mock the routes of mounted routers in mock mode', async () => {
+      const users = plus();
+      users.router.get({ path: '/:id', params: z.object({ id: z.coerce.number() }), responses });
+      const teams = plus();
+      teams.router.get({ path: '/', responses: { 200: { description: 'Teams', content: { 'application/json': { schema: z.array(z.string()) } } } } }, (req, res) => {
+        res.set('x-handled', 'true').json(['handled']); // Not run in mock mode
+      });
+      users.router.use('/:userId/teams', teams.router);
+
+      const mocked = plus(express(), { mock: true });
+      mocked.app.use('/users', users.router);
+
+      const user = await request(mocked.app).get('/users/1');
+      expect(user.status).toBe(200);
+      expect(User.parse(user.body)).toEqual(user.body);
+
+      const invalid = await request(mocked.app).get('/users/abc');
+      expect(invalid.status).toBe(400);
+
+      const userTeams = await request(mocked.app).get('/users/1/teams');
+      expect(userTeams.status).toBe(200);
+      expect(userTeams.headers['x-handled']).toBeUndefined();
+      expect(Array.isArray(userTeams.body)).toBe(true);
+    });
+
+    it('should respond 501 for routes without handlers outside mock mode', async () => {
+      app.get({ path: '/users/:id', responses });
+
+      const response = await request(app).get('/users/1');
+      expect(response.status).toBe(501);
+    });
+
+    it('should serve the documented routes of a registry from mock()', async () => {
+      const { router } = plus();
+      router.get({ path: '/:id', responses }, (req, res, next) => next());
+      app.use('/users', router);
+
+      const server = express();
+      server.use(registry.mock({ seed: 1 }));
+
+      const response = await request(server).get('/users/5');
       expect(response.status).toBe(200);
-      expect(response.body).toEqual({ stats: 'admin stats' });
+      expect(User.parse(response.body)).toEqual(response.body);
+
+      // Routes added later are served too
+      app.post({ path: '/users', responses: { 201: responses[200] } }, (req: any, res: any) => {
+        res.status(201).json({});
+      });
+      const created = await request(server).post('/users');
+      expect(created.status).toBe(201);
+
+      const unknown = await request(server).get('/teams');
+      expect(unknown.status).toBe(404);
+    });
+  });
+
+  describe('Document Diff', () => {
+    function buildDocument(version: 1 | 2, openapi = '3.0.0') {
+      const Role = version === 1 ? z.enum(['admin', 'member', 'guest']) : z.enum(['admin', 'member', 'owner']);
+      const User = z.object({
+        id: version === 1 ? z.number().int() : z.string(),
+        role: Role,
+        ...(version === 1 ? { email: z.string() } : { nickname: z.string().optional() })
+      }).openapi('User');
+
+      const { router, registry: routerRegistry } = plus();
+      router.get({
+        path: version === 1 ? '/:id' : '/:userId',
+        query: version === 1 ? z.object({ limit: z.string().optional() }) : z.object({ limit: z.string(), role: Role.optional() }),
+        responses: { 200: { description: 'The user', content: { 'application/json': { schema: User } } } }
+      }, (req, res, next) => next());
+      router.post({
+        path: '/',
+        body: z.object({ role: Role, ...(version === 2 ? { team: z.string() } : {}) })
+      }, (req, res, next) => next());
+      if (version === 1) {
+        router.delete({ path: '/:id' }, (req, res, next) => next());
+      }
+
+      return routerRegistry.setOpenApiVersion(openapi).generateOpenAPIDocument();
+    }
+
+    it('should classify breaking and non-breaking changes between documents', () => {
+      const diff = diffDocuments(buildDocument(1), buildDocument(2));
+      const summarize = (changes: any[]) => changes.map(({ code, operation, location, path }) =>
+        [code, operation, location, path].filter(Boolean).join(' '));
+
+      expect(summarize(diff.breaking)).toEqual([
+        'parameter-became-required GET /{userId} query parameter limit',
+        'type-changed GET /{userId} response 200 application/json id',
+        'enum-widened GET /{userId} response 200 application/json role',
+        'property-removed GET /{userId} response 200 application/json email',
+        'operation-removed DELETE /{id}',
+        'enum-narrowed POST / request body application/json role',
+        'property-added-required POST / request body application/json team'
+      ]);
+      expect(summarize(diff.nonBreaking)).toEqual([
+        'parameter-added GET /{userId} query parameter role',
+        'enum-narrowed GET /{userId} response 200 application/json role',
+        'property-added GET /{userId} response 200 application/json nickname',
+        'enum-widened POST / request body application/json role'
+      ]);
+      expect(diff.breaking[2].message).toBe('Now may return "owner"');
+    });
+
+    it('should report no changes between equal documents in either OpenAPI version', () => {
+      expect(diffDocuments(buildDocument(1), buildDocument(1))).toEqual({ breaking: [], nonBreaking: [] });
+      expect(diffDocuments(buildDocument(1, '3.1.0'), buildDocument(1, '3.1.0'))).toEqual({ breaking: [], nonBreaking: [] });
+      expect(diffDocuments(buildDocument(1, '3.1.0'), buildDocument(2, '3.1.0')).breaking.map(({ code }) => code)).toEqual([
+        'parameter-became-required',
+        'type-changed',
+        'enum-widened',
+        'property-removed',
+        'operation-removed',
+        'enum-narrowed',
+        'property-added-required'
+      ]);
+    });
+
+    it('should follow recursive $ref components once', () => {
+      const document = (properties: Record<string, any>) => ({
+        openapi: '3.0.0',
+        info: { title: 'Tree', version: '1.0.0' },
+        paths: {
+          '/tree': {
+            get: {
+              responses: {
+                200: { description: 'The tree', content: { 'application/json': { schema: { $ref: '#/components/schemas/Node' } } } }
+              }
+            }
+          }
+        },
+        components: {
+          schemas: {
+            Node: {
+              type: 'object',
+              properties: { children: { type: 'array', items: { $ref: '#/components/schemas/Node' } }, ...properties },
+              required: ['children']
+            }
+          }
+        }
+      });
+
+      const diff = diffDocuments(document({ label: { type: 'string', nullable: true } }), document({ label: { type: 'string' } }));
+      expect(diff.breaking).toEqual([]);
+      expect(diff.nonBreaking).toEqual([{
+        code: 'nullable-removed',
+        breaking: false,
+        operation: 'GET /tree',
+        location: 'response 200 application/json',
+        path: 'label',
+        message: 'Is no longer null'
+      }]);
+    });
+
+    it('should report changes to a component at every place it is referenced', () => {
+      const document = (addressProperties: Record<string, any>) => ({
+        openapi: '3.0.0',
+        info: { title: 'Orders', version: '1.0.0' },
+        paths: {
+          '/orders': {
+            get: {
+              responses: {
+                200: { description: 'The order', content: { 'application/json': { schema: { $ref: '#/components/schemas/Order' } } } }
+              }
+            }
+          }
+        },
+        components: {
+          schemas: {
+            Order: {
+              type: 'object',
+              properties: {
+                billing: { $ref: '#/components/schemas/Address' },
+                shipping: { $ref: '#/components/schemas/Address' }
+              }
+            },
+            Address: { type: 'object', properties: { street: { type: 'string' }, ...addressProperties } }
+          }
+        }
+      });
+
+      const diff = diffDocuments(document({ zip: { type: 'string' } }), document({}));
+      expect(diff.breaking.map(({ code, path }) => `${code} ${path}`)).toEqual([
+        'property-removed billing.zip',
+        'property-removed shipping.zip'
+      ]);
+    });
+
+    it('should compare whether undeclared properties are allowed', () => {
+      const document = (additionalProperties: any) => {
+        const schema = { type: 'object', properties: { name: { type: 'string' } }, additionalProperties };
+        return {
+          openapi: '3.0.0',
+          info: { title: 'Settings', version: '1.0.0' },
+          paths: {
+            '/settings': {
+              put: {
+                requestBody: { content: { 'application/json': { schema } } },
+                responses: { 200: { description: 'The settings', content: { 'application/json': { schema } } } }
+              }
+            }
+          }
+        };
+      };
+      const summarize = (changes: any[]) => changes.map(({ code, location }) => `${code} ${location}`);
+
+      const closed = diffDocuments(document(undefined), document(false));
+      expect(summarize(closed.breaking)).toEqual(['additional-properties-disallowed request body application/json']);
+      expect(summarize(closed.nonBreaking)).toEqual(['additional-properties-disallowed response 200 application/json']);
+
+      const opened = diffDocuments(document(false), document(true));
+      expect(opened.breaking).toEqual([]);
+      expect(summarize(opened.nonBreaking)).toEqual([
+        'additional-properties-allowed request body application/json',
+        'additional-properties-allowed response 200 application/json'
+      ]);
+
+      const values = diffDocuments(document({ type: 'string' }), document({ type: 'number' }));
+      expect(values.breaking.map(({ code, path }) => `${code} ${path}`)).toEqual(['type-changed *', 'type-changed *']);
+    });
+
+    it('should exit the diff command with 1 on breaking changes and 2 on errors', () => {
+      const directory = fs.mkdtempSync(path.join(os.tmpdir(), 'plus-express-diff-'));
+      const log = vi.spyOn(console, 'log').mockImplementation(() => undefined);
+      const error = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      try {
+        const v1 = path.join(directory, 'v1.json');
+        const v2 = path.join(directory, 'v2.json');
+        fs.writeFileSync(v1, JSON.stringify(buildDocument(1)));
+        fs.writeFileSync(v2, JSON.stringify(buildDocument(2)));
+
+        expect(main(['diff', v1, v1])).toBe(0);
+        expect(main(['diff', v1, v2])).toBe(1);
+        expect(main(['diff', v1, path.join(directory, 'missing.json')])).toBe(2);
+        expect(error).toHaveBeenLastCalledWith(expect.stringContaining('missing.json'));
+        expect(main(['diff', v1])).toBe(2);
+        expect(main(['diff', v1, v2, '--yaml'])).toBe(2);
+      } finally {
+        log.mockRestore();
+        error.mockRestore();
+        fs.rmSync(directory, { recursive: true, force: true });
+      }
     });
   });
 
@@ -243,6 +2175,175 @@ describe('plus', () => {
       expect(doc.paths['/api/v1/users/list'].get.summary).toBe('List users');
     });
 
+    it('should document routers mounted several levels deep with their full path', () => {
+      const { router: v1Router } = plus();
+      const { router: usersRouter } = plus();
+      const { router: settingsRouter, registry: settingsRegistry } = plus();
+
+      settingsRouter.get({ path: '/theme', summary: 'Get theme' }, (req, res) => res.json({}));
+      usersRouter.get({ path: '/' }, (req, res) => res.json([]));
+      usersRouter.use('/settings', settingsRouter);
+      v1Router.use('/users', usersRouter);
+      app.use('/api/v1', v1Router);
+
+      const doc = registry.generateOpenAPIDocument();
+      expect(Object.keys(doc.paths)).toEqual(['/api/v1/users', '/api/v1/users/settings/theme']);
+      expect(doc.paths['/api/v1/users/settings/theme'].get.summary).toBe('Get theme');
+
+      // Routes added after mounting still appear
+      settingsRouter.put({ path: '/theme' }, (req, res) => res.json({}));
+      expect(registry.generateOpenAPIDocument().paths['/api/v1/users/settings/theme']).toHaveProperty('put');
+
+      // The nested registry itself is left untouched
+      expect(settingsRegistry.getRawRegistry().definitions.map((def: any) => def.route.path))
+        .toEqual(['/theme', '/theme']);
+    });
+
+    it('should carry non-route definitions of nested routers into the document', () => {
+      const { router: v1Router } = plus();
+      const { router: usersRouter, registry: usersRegistry } = plus();
+
+      const User = z.object({ id: z.string() }).openapi('User');
+      usersRegistry.getRawRegistry().register('User', User);
+      usersRegistry.registerSecurityScheme('BearerAuth', { type: 'http', scheme: 'bearer' });
+      usersRegistry.registerSecurityScheme('ApiKeyAuth', { type: 'apiKey', in: 'header', name: 'X-KEY' });
+      registry.registerSecurityScheme('ApiKeyAuth', { type: 'apiKey', in: 'query', name: 'key' });
+
+      usersRouter.get({
+        path: '/:id',
+        params: z.object({ id: z.string() }),
+        responses: {
+          200: { description: 'User', content: { 'application/json': { schema: User } } }
+        }
+      }, (req, res) => res.json({ id: '1' }));
+      v1Router.use('/users', usersRouter);
+      app.use('/v1', v1Router);
+
+      const doc = registry.generateOpenAPIDocument();
+      expect(doc.components.schemas).toHaveProperty('User');
+      expect(doc.paths['/v1/users/{id}'].get.responses['200'].content['application/json'].schema)
+        .toEqual({ $ref: '#/components/schemas/User' });
+      expect(doc.components.securitySchemes.BearerAuth.scheme).toBe('bearer');
+      // The app's own definition wins over a nested one with the same name
+      expect(doc.components.securitySchemes.ApiKeyAuth.in).toBe('query');
+    });
+
+    it('should generate the same document when called repeatedly', () => {
+      const { router: usersRouter } = plus();
+      usersRouter.get({ path: '/list' }, (req, res) => res.json([]));
+      app.use('/users', usersRouter);
+      app.get({ path: '/health' }, (req, res) => res.json({}));
+
+      const definitionCount = registry.getRawRegistry().definitions.length;
+      const first = registry.generateOpenAPIDocument();
+
+      for (let i = 0; i < 5; i++) {
+        expect(registry.generateOpenAPIDocument()).toEqual(first);
+      }
+      expect(JSON.parse(JSON.stringify(registry.generateOpenAPIDocument({})))).toEqual(
+        JSON.parse(JSON.stringify(first))
+      );
+      expect(Object.keys(first.paths)).toEqual(['/health', '/users/list']);
+      expect(registry.getRawRegistry().definitions).toHaveLength(definitionCount);
+    });
+
+    it('should regenerate the document after definitions are added to the raw registry', () => {
+      app.get({ path: '/health' }, (req, res) => res.json({}));
+      expect(registry.generateOpenAPIDocument().components?.schemas?.User).toBeUndefined();
+
+      registry.getRawRegistry().register('User', z.object({ id: z.number() }));
+      expect(registry.generateOpenAPIDocument().components.schemas.User).toMatchObject({ type: 'object' });
+    });
+
+    it('should not let changes to a returned document reach later calls', () => {
+      app.get({ path: '/health' }, (req, res) => res.json({}));
+
+      const first = registry.generateOpenAPIDocument();
+      first.info.title = 'Changed';
+      delete first.paths['/health'];
+
+      const second = registry.generateOpenAPIDocument();
+      expect(second).not.toBe(first);
+      expect(second.info.title).toBe('API Documentation');
+      expect(second.paths).toHaveProperty('/health');
+    });
+
+    it('should regenerate the document after late route registration', () => {
+      const { router: usersRouter } = plus();
+      usersRouter.get({ path: '/list' }, (req, res) => res.json([]));
+      app.use('/users', usersRouter);
+
+      const before = registry.generateOpenAPIDocument();
+      expect(Object.keys(before.paths)).toEqual(['/users/list']);
+
+      // A route added to an already mounted router
+      usersRouter.post({ path: '/list' }, (req, res) => res.json({}));
+      const afterRouterRoute = registry.generateOpenAPIDocument();
+      expect(afterRouterRoute).not.toBe(before);
+      expect(afterRouterRoute.paths['/users/list']).toHaveProperty('post');
+
+      // A new mount and a new app route
+      const { router: adminRouter } = plus();
+      adminRouter.get({ path: '/stats' }, (req, res) => res.json({}));
+      app.use('/admin', adminRouter);
+      app.get({ path: '/health' }, (req, res) => res.json({}));
+
+      const after = registry.generateOpenAPIDocument();
+      expect(Object.keys(after.paths)).toEqual(['/health', '/users/list', '/admin/stats']);
+      expect(registry.generateOpenAPIDocument()).toEqual(after);
+    });
+
+    it('should generate OpenAPI 3.0 and 3.1 documents from the same routes', () => {
+      app.get({
+        path: '/users/:id',
+        params: z.object({ id: z.string() }),
+        responses: {
+          200: {
+            description: 'User',
+            content: {
+              'application/json': {
+                schema: z.object({
+                  name: z.string().openapi({ examples: ['John'] }),
+                  nickname: z.string().nullable()
+                })
+              }
+            }
+          }
+        }
+      }, (req, res) => {
+        res.json({ name: 'John', nickname: null });
+      });
+      registry.registerWebhook('userCreated', {
+        body: z.object({ id: z.string() }),
+        responses: { 200: { description: 'Received' } }
+      });
+
+      const v30 = registry.generateOpenAPIDocument();
+      const v31 = registry.setOpenApiVersion('3.1.0').generateOpenAPIDocument();
+
+      const schema30 = v30.paths['/users/{id}'].get.responses['200'].content['application/json'].schema;
+      const schema31 = v31.paths['/users/{id}'].get.responses['200'].content['application/json'].schema;
+
+      expect(v30.openapi).toBe('3.0.0');
+      expect(schema30.properties.nickname).toEqual({ type: 'string', nullable: true });
+      expect(v30.webhooks).toBeUndefined();
+
+      expect(v31.openapi).toBe('3.1.0');
+      expect(schema31.properties.nickname).toEqual({ type: ['string', 'null'] });
+      expect(schema31.properties.name.examples).toEqual(['John']);
+      expect(v31.webhooks.userCreated.post.requestBody.content['application/json'].schema.properties)
+        .toHaveProperty('id');
+      expect(Object.keys(v31.paths)).toEqual(Object.keys(v30.paths));
+    });
+
+    it('should select OpenAPI 3.1 from the config passed to generation', () => {
+      app.get({ path: '/users' }, (req, res) => res.json([]));
+
+      const doc = registry.generateOpenAPIDocument({ openapi: '3.1.0' });
+      expect(doc.openapi).toBe('3.1.0');
+      expect(doc.paths['/users'].get).toBeDefined();
+    });
+
     it('should configure OpenAPI info', () => {
       registry.setInfo({
         title: 'Test API',
@@ -284,6 +2385,119 @@ describe('plus', () => {
     });
   });
 
+  describe('Docs Router', () => {
+    beforeEach(() => {
+      registry.setInfo({ title: 'Docs <API>', version: '1.0.0' });
+      app.get({
+        path: '/users/:id',
+        summary: 'Get user: by id',
+        params: z.object({ id: z.string() })
+      }, (req, res) => res.json({}));
+      app.use('/docs', registry.docsRouter());
+    });
+
+    it('should serve the document as JSON', async () => {
+      const response = await request(app).get('/docs/openapi.json');
+      expect(response.status).toBe(200);
+      expect(response.body.paths['/users/{id}'].get.summary).toBe('Get user: by id');
+    });
+
+    it('should serve the document as YAML', async () => {
+      const response = await request(app).get('/docs/openapi.yaml');
+      expect(response.status).toBe(200);
+      expect(response.headers['content-type']).toContain('application/yaml');
+      expect(response.text).toContain('openapi: 3.0.0\n');
+      expect(response.text).toContain('  /users/{id}:\n    get:\n');
+      expect(response.text).toContain('summary: "Get user: by id"');
+    });
+
+    it('should serve an HTML viewer pointing at the JSON document', async () => {
+      const response = await request(app).get('/docs');
+      expect(response.status).toBe(200);
+      expect(response.text).toContain('<title>Docs &lt;API&gt;</title>');
+      expect(response.text).toContain('url: "/docs/openapi.json"');
+      expect(response.text).toContain('swagger-ui-bundle.js');
+    });
+
+    it('should use configured assets for the viewer', async () => {
+      app.use('/redoc', registry.docsRouter({
+        ui: 'redoc',
+        assets: { scripts: ['/static/redoc.js'] }
+      }));
+
+      const response = await request(app).get('/redoc');
+      expect(response.text).toContain('<redoc spec-url="/redoc/openapi.json"></redoc>');
+      expect(response.text).toContain('<script src="/static/redoc.js"></script>');
+    });
+
+    it('should serve the current document after routes change', async () => {
+      const before = await request(app).get('/docs/openapi.json');
+      expect(before.body.paths).not.toHaveProperty('/admin/list');
+
+      const { router } = plus();
+      router.get({ path: '/list' }, (req, res) => res.json([]));
+      app.use('/admin', router);
+
+      const json = await request(app).get('/docs/openapi.json');
+      expect(json.body.paths).toHaveProperty('/admin/list');
+
+      const yaml = await request(app).get('/docs/openapi.yaml');
+      expect(yaml.text).toContain('/admin/list:');
+    });
+  });
+
+  describe('YAML Serializer', () => {
+    it('should write nested collections in block style', () => {
+      expect(toYAML({
+        openapi: '3.0.0',
+        tags: ['users', 'admin'],
+        servers: [{ url: 'http://localhost', description: 'Local' }],
+        empty: [],
+        none: {},
+        nested: { deep: [[1, 2], { a: null }] }
+      })).toBe([
+        'openapi: 3.0.0',
+        'tags:',
+        '  - users',
+        '  - admin',
+        'servers:',
+        '  - url: http://localhost',
+        '    description: Local',
+        'empty: []',
+        'none: {}',
+        'nested:',
+        '  deep:',
+        '    - - 1',
+        '      - 2',
+        '    - a: null',
+        ''
+      ].join('\n'));
+    });
+
+    it('should quote strings that would not read back as strings', () => {
+      expect(toYAML({
+        '200': 'true',
+        version: '1.0',
+        ref: '#/components/schemas/User',
+        multi: 'line one\nline two',
+        blank: '',
+        date: '2024-01-01',
+        duration: '1:30',
+        plain: 'Get all users'
+      })).toBe([
+        '"200": "true"',
+        'version: "1.0"',
+        'ref: "#/components/schemas/User"',
+        'multi: "line one\\nline two"',
+        'blank: ""',
+        'date: "2024-01-01"',
+        'duration: "1:30"',
+        'plain: Get all users',
+        ''
+      ].join('\n'));
+    });
+  });
+
   describe('Default Schemas', () => {
     it('should apply default query schema to all routes', async () => {
       registry.setDefaultQuerySchema(
@@ -303,6 +2517,24 @@ describe('plus', () => {
       expect(response.body.format).toBe('json');
     });
 
+    it('should apply and document the default cookie schema', async () => {
+      registry.setDefaultCookieSchema(z.object({ locale: z.string().default('en') }));
+
+      app.get({
+        path: '/users',
+        cookies: z.object({ sessionId: z.string() })
+      }, (req, res) => {
+        res.json(req.parsed.cookies);
+      });
+
+      const response = await request(app).get('/users').set('Cookie', 'sessionId=s1');
+      expect(response.body).toEqual({ locale: 'en', sessionId: 's1' });
+
+      const doc = registry.generateOpenAPIDocument();
+      const cookieParams = doc.paths['/users'].get.parameters.filter((param: any) => param.in === 'cookie');
+      expect(cookieParams.map((param: any) => param.name)).toEqual(['locale', 'sessionId']);
+    });
+
     it('should merge route-specific query schema with default', async () => {
       registry.setDefaultQuerySchema(
         z.object({
@@ -5,7 +5,17 @@ import {
   ExpressPlusApplication,
   ExpressPlusReturn
 } from './types';
-import { enhanceHttpMethods, combineRegistries, normalizeMountPath, MountInfo } from './utils';
+import {
+  enhanceHttpMethods,
+  enhanceRoutes,
+  enhanceImplement,
+  combineRegistries,
+  combineRevisions,
+  enableMountParams,
+  enableMockMode,
+  normalizeMountPath,
+  MountInfo
+} from './utils';
 
 /**
  * Enhances an Express application with typed route handling and OpenAPI documentation
@@ -22,10 +32,20 @@ export const expressPlus = (app: Application, opts: ApiOptions = {}): ExpressPlu
   const mountRegistry: MountInfo[] = [];
 
   // Define the HTTP methods to enhance
-  const methods = ['get', 'post', 'put', 'delete', 'patch', 'options', 'head'] as const;
+  const methods = ['get', 'post', 'put', 'delete', 'patch', 'options', 'head', 'all'] as const;
 
   // Enhance the app with our augmented methods
   enhanceHttpMethods(app, methods, registry.createEndpoint as any);
+  enhanceRoutes(app, methods, registry.createEndpoint as any);
+  enhanceImplement(app, registry.getOperation);
+
+  // Mounted routers are mocked along with the app
+  function enableAppMockMode(router: any): void {
+    const mockOptions = registry.getMockOptions();
+    if (mockOptions) {
+      enableMockMode(router, mockOptions);
+    }
+  }
 
   // Keep a reference to the original use method
   const originalUse = app.use;
@@ -41,71 +61,36 @@ export const expressPlus = (app: Application, opts: ApiOptions = {}): ExpressPlu
       if (middleware && middleware._isRouterPlus && middleware._registry) {
         const normalizedPath = normalizeMountPath(mountPath);
         mountRegistry.push({ path: normalizedPath, registry: middleware._registry });
+        enableMountParams(middleware, normalizedPath, {}, opts.onWarning);
+        enableAppMockMode(middleware);
       }
     }
 
     // Case 2: Just RouterPlus (app.use(router))
     if (args.length === 1 && args[0] && args[0]._isRouterPlus && args[0]._registry) {
       mountRegistry.push({ path: '/', registry: args[0]._registry });
+      enableAppMockMode(args[0]);
     }
 
     // Call the original use method
     return originalUse.apply(this, args as any) as Application;
   };
 
-  // Override the generateOpenAPIDocument method to combine registries
-  const originalGenerateOpenAPIDocument = registry.generateOpenAPIDocument;
-  registry.generateOpenAPIDocument = function(config?: Partial<any>): any {
-    // Get the base registry
-    const baseRegistry = registry.getRawRegistry();
-
-    // For each mounted registry, copy its definitions to the base registry
-    mountRegistry.forEach(({ path, registry: mountedRegistry }) => {
-      if (!mountedRegistry) {
-        return;
-      }
-
-      // Get the raw registry definitions from the Registry object
-      const rawRegistry = mountedRegistry.getRawRegistry ?
-                         mountedRegistry.getRawRegistry() :
-                         mountedRegistry;
-
-      if (!rawRegistry || !rawRegistry.definitions) {
-        return;
-      }
-
-      // For each definition in the mounted registry, re-register it with the base registry
-      rawRegistry.definitions.forEach((def: any) => {
-        if (def.type === 'route') {
-          // Extract the route details
-          const route = def.route;
-          let routePath = route.path;
-
-          // Adjust the path
-          if (routePath.startsWith('/')) {
-            routePath = routePath.substring(1);
-          }
-          const fullPath = path === '/' ? `/${routePath}` : `${path}/${routePath}`;
-
-          // Re-register the route with the adjusted path using the base registry
-          // This properly adds it to the registry's definitions
-          baseRegistry.registerPath({
-            ...route,
-            path: fullPath
-          });
-        }
-        // Note: Non-route definitions (components, schemas, etc.) are skipped
-        // They should be defined in the main registry if needed
-      });
-    });
+  // Include mounts and mounted registries in the revision so cached documents are refreshed
+  const originalGetRevision = registry.getRevision;
+  registry.getRevision = function(): number {
+    return combineRevisions(originalGetRevision(), mountRegistry);
+  };
 
-    // Then generate the document using the original method
-    return originalGenerateOpenAPIDocument.call(this, config);
+  // Combine the app's definitions with those of the mount tree, without modifying any registry
+  const originalGetDefinitions = registry.getDefinitions;
+  registry.getDefinitions = function() {
+    return combineRegistries(originalGetDefinitions(), mountRegistry);
   };
 
   // Return enhanced app and registry
   return {
-    app: app as unknown as ExpressPlusApplication,
+    app: app as unknown as ExpressPlusApplication<never>,
     registry
   };
 };
\ No newline at end of file
@@ -2,7 +2,16 @@ import { Application, Router } from 'express';
 import { expressPlus } from './express-plus';
 import { routerPlus } from './router-plus';
 import { createRegistry } from './registry';
-import { z } from 'zod';
+import { fileField, parseMultipart } from './multipart';
+import { defineMiddleware } from './middleware';
+import { toYAML } from './yaml';
+import { jsonSchemaToZod } from './json-schema';
+import { createClient } from './client';
+import { defineContract } from './contract';
+import { generateClient } from './codegen';
+import { testApi } from './testing';
+import { diffDocuments } from './diff';
+import { z, ZodObject } from 'zod';
 import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
 import { ApiOptions, ExpressPlusReturn, RouterPlusReturn } from './types';
 
@@ -19,6 +28,16 @@ export {
   expressPlus,
   routerPlus,
   createRegistry,
+  defineMiddleware,
+  defineContract,
+  fileField,
+  parseMultipart,
+  toYAML,
+  jsonSchemaToZod,
+  createClient,
+  generateClient,
+  testApi,
+  diffDocuments,
   z
 };
 
@@ -44,7 +63,10 @@ export function plus(
 ): ExpressPlusReturn;
 
 // Overload 3: Enhance an Express router
-export function plus(router: Router, opts?: ApiOptions): RouterPlusReturn;
+export function plus<TMountParams extends ZodObject<any> | undefined = undefined>(
+  router: Router,
+  opts?: ApiOptions<TMountParams>
+): RouterPlusReturn<TMountParams>;
 
 /**
  * Unified plus() function implementation
@@ -0,0 +1,261 @@
+import { z, ZodType } from 'zod';
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+import { dereference, resolveRef } from './openapi';
+
+// Extend Zod with OpenAPI support
+extendZodWithOpenApi(z);
+
+// Options for converting JSON Schemas to Zod
+export interface JsonSchemaConversionOptions {
+  document?: any; // The document local $refs (#/components/...) are resolved against
+  coerce?: boolean; // Convert strings to numbers, booleans and arrays, as needed for params, query and headers
+}
+
+/**
+ * Convert a value sent as text (a param, query value or header) to a boolean when it spells one
+ */
+function parseBooleanText(value: unknown): unknown {
+  if (value === 'true') {
+    return true;
+  }
+  if (value === 'false') {
+    return false;
+  }
+  return value;
+}
+
+/**
+ * Create a converter sharing one cache of converted $refs
+ */
+function createConverter(options: JsonSchemaConversionOptions) {
+  const { document = {}, coerce = false } = options;
+
+  // Converted $refs; a ref still being converted is reached lazily, which allows recursion
+  const refs = new Map<string, ZodType | undefined>();
+
+  function convertRef(ref: string): ZodType {
+    if (refs.has(ref)) {
+      const converted = refs.get(ref);
+      return converted || z.lazy(() => refs.get(ref) as ZodType);
+    }
+
+    refs.set(ref, undefined);
+    let schema = convert(resolveRef(document, ref));
+
+    // Named component schemas stay components in generated documents
+    const match = /^#\/components\/schemas\/([^/]+)$/.exec(ref);
+    if (match) {
+      schema = schema.openapi(match[1]);
+    }
+
+    refs.set(ref, schema);
+    return schema;
+  }
+
+  function convertString(schema: any): ZodType {
+    let result = z.string();
+    if (schema.minLength !== undefined) {
+      result = result.min(schema.minLength);
+    }
+    if (schema.maxLength !== undefined) {
+      result = result.max(schema.maxLength);
+    }
+    if (schema.pattern !== undefined) {
+      result = result.regex(new RegExp(schema.pattern));
+    }
+
+    switch (schema.format) {
+      case 'email':
+        return result.pipe(z.email());
+      case 'uuid':
+        return result.pipe(z.uuid());
+      case 'uri':
+        return result.pipe(z.url());
+      case 'date':
+        return result.pipe(z.iso.date());
+      case 'date-time':
+        return result.pipe(z.iso.datetime({ offset: true }));
+      default:
+        return result;
+    }
+  }
+
+  function convertNumber(schema: any, integer: boolean): ZodType {
+    let result = coerce ? z.coerce.number() : z.number();
+    if (integer) {
+      result = result.int();
+    }
+    if (schema.minimum !== undefined) {
+      // OpenAPI 3.0 marks an exclusive bound with a boolean, 3.1 gives the bound itself
+      result = schema.exclusiveMinimum === true ? result.gt(schema.minimum) : result.gte(schema.minimum);
+    }
+    if (typeof schema.exclusiveMinimum === 'number') {
+      result = result.gt(schema.exclusiveMinimum);
+    }
+    if (schema.maximum !== undefined) {
+      result = schema.exclusiveMaximum === true ? result.lt(schema.maximum) : result.lte(schema.maximum);
+    }
+    if (typeof schema.exclusiveMaximum === 'number') {
+      result = result.lt(schema.exclusiveMaximum);
+    }
+    if (schema.multipleOf !== undefined) {
+      result = result.multipleOf(schema.multipleOf);
+    }
+    return result;
+  }
+
+  function convertArray(schema: any): ZodType {
+    let result = z.array(schema.items ? convert(schema.items) : z.unknown());
+    if (schema.minItems !== undefined) {
+      result = result.min(schema.minItems);
+    }
+    if (schema.maxItems !== undefined) {
+      result = result.max(schema.maxItems);
+    }
+
+    const array: ZodType = schema.uniqueItems ?
+      result.refine(
+        (items) => new Set(items.map((item) => JSON.stringify(item))).size === items.length,
+        { message: 'Items must be unique' }
+      ) :
+      result;
+
+    // A single query value or header arrives as a string rather than a one-item array
+    return coerce ?
+      z.preprocess((value) => (value === undefined || Array.isArray(value) ? value : [value]), array) :
+      array;
+  }
+
+  function convertObject(schema: any): ZodType {
+    const required = new Set<string>(schema.required || []);
+    const shape = Object.fromEntries(
+      Object.entries(schema.properties || {}).map(([name, property]) => {
+        const converted = convert(property);
+        const resolved = dereference(document, property);
+        if (required.has(name)) {
+          return [name, converted];
+        }
+        return [name, resolved && resolved.default !== undefined ? converted : converted.optional()];
+      })
+    );
+
+    // Undeclared properties are allowed unless additionalProperties says otherwise
+    if (schema.additionalProperties === false) {
+      return z.strictObject(shape);
+    }
+    if (schema.additionalProperties && typeof schema.additionalProperties === 'object') {
+      return z.object(shape).catchall(convert(schema.additionalProperties));
+    }
+    return z.looseObject(shape);
+  }
+
+  function convertType(schema: any, type: string): ZodType {
+    switch (type) {
+      case 'string':
+        return convertString(schema);
+      case 'number':
+        return convertNumber(schema, false);
+      case 'integer':
+        return convertNumber(schema, true);
+      case 'boolean':
+        return coerce ? z.preprocess(parseBooleanText, z.boolean()) : z.boolean();
+      case 'null':
+        return z.null();
+      case 'array':
+        return convertArray(schema);
+      case 'object':
+        return convertObject(schema);
+      default:
+        return z.unknown();
+    }
+  }
+
+  function union(schemas: ZodType[]): ZodType {
+    return schemas.length === 1 ? schemas[0] : z.union(schemas as [ZodType, ZodType, ...ZodType[]]);
+  }
+
+  function convertWithoutDefault(schema: any): ZodType {
+    if (schema.const !== undefined) {
+      return z.literal(schema.const);
+    }
+    if (Array.isArray(schema.enum)) {
+      const values = schema.enum.filter((value: unknown) => value !== null);
+      const result = values.every((value: unknown) => typeof value === 'string') ?
+        z.enum(values as [string, ...string[]]) :
+        union(values.map((value: any) => z.literal(value)));
+      return schema.enum.includes(null) ? result.nullable() : result;
+    }
+
+    if (Array.isArray(schema.allOf)) {
+      return schema.allOf
+        .map((part: any) => convert(part))
+        .reduce((left: ZodType, right: ZodType) => z.intersection(left, right));
+    }
+    if (Array.isArray(schema.oneOf) || Array.isArray(schema.anyOf)) {
+      return union((schema.oneOf || schema.anyOf).map((option: any) => convert(option)));
+    }
+
+    // OpenAPI 3.1 lists types, 3.0 marks them nullable
+    const types: string[] = Array.isArray(schema.type) ? schema.type : [schema.type || inferType(schema)];
+    const nonNullTypes = types.filter((type) => type !== 'null');
+    const result = nonNullTypes.length === 0 ? z.null() : union(nonNullTypes.map((type) => convertType(schema, type)));
+
+    return schema.nullable === true || (types.includes('null') && nonNullTypes.length > 0) ? result.nullable() : result;
+  }
+
+  function convert(schema: any): ZodType {
+    if (schema === true || schema === undefined || schema === null) {
+      return z.unknown();
+    }
+    if (schema === false) {
+      return z.never();
+    }
+    if (typeof schema.$ref === 'string') {
+      return convertRef(schema.$ref);
+    }
+
+    const result = convertWithoutDefault(schema);
+    return schema.default !== undefined ? result.default(schema.default) : result;
+  }
+
+  return convert;
+}
+
+/**
+ * Guess the type of a schema that does not state one
+ */
+function inferType(schema: any): string | undefined {
+  if (schema.properties || schema.additionalProperties !== undefined || schema.required) {
+    return 'object';
+  }
+  if (schema.items) {
+    return 'array';
+  }
+  return undefined;
+}
+
+/**
+ * Convert a JSON Schema (as used by OpenAPI 3.0 and 3.1) into a Zod schema
+ *
+ * Supports types (including 3.1 type arrays and 3.0 `nullable`), enums and consts, string,
+ * number and array constraints, common string formats, objects with `required` and
+ * `additionalProperties`, `allOf`/`oneOf`/`anyOf`, defaults and local `$ref`s (recursive ones too).
+ * Keywords without a Zod equivalent are ignored.
+ *
+ * @param schema The JSON Schema
+ * @param options The document to resolve references against, and whether to coerce text
+ * @returns The Zod schema
+ */
+export function jsonSchemaToZod(schema: any, options: JsonSchemaConversionOptions = {}): ZodType {
+  return createConverter(options)(schema);
+}
+
+/**
+ * Create a converter that shares converted $refs between calls, for converting a whole document
+ *
+ * @param options The document to resolve references against, and whether to coerce text
+ * @returns A function converting one schema
+ */
+export function createJsonSchemaConverter(options: JsonSchemaConversionOptions = {}): (schema: any) => ZodType {
+  return createConverter(options);
+}
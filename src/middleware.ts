@@ -0,0 +1,19 @@
+import { ZodObject } from 'zod';
+import { EndpointMiddleware } from './types';
+
+/**
+ * Declare middleware for EndpointOptions.middleware
+ *
+ * The headers and responses are validated and documented on every route using the
+ * middleware, and the properties it adds to req (the first type argument) are typed
+ * in the route's handlers.
+ *
+ * @param middleware The handler and what it reads and may respond with
+ * @returns The same middleware, typed for use in route options
+ */
+export function defineMiddleware<
+  TProvides extends object = {},
+  THeaders extends ZodObject<any> | undefined = ZodObject<any>
+>(middleware: EndpointMiddleware<TProvides, THeaders>): EndpointMiddleware<TProvides, THeaders> {
+  return middleware;
+}
@@ -0,0 +1,550 @@
+import { Request, Response, NextFunction, Router } from 'express';
+import { HttpMethod, MockOptions, Registry, ResponseObject } from './types';
+import { DOCUMENT_METHODS, dereference, isJsonContentType, resolveRef } from './openapi';
+import { findResponseSchema } from './responses';
+import { toExpressPath } from './spec';
+
+// Words strings are made of
+const WORDS = [
+  'alpha', 'bravo', 'cedar', 'delta', 'ember', 'fjord', 'grove', 'harbor', 'iris', 'juniper',
+  'kestrel', 'lumen', 'maple', 'nova', 'orbit', 'pebble', 'quartz', 'river', 'summit', 'tundra'
+];
+
+// Characters of the shorthand classes in patterns
+const DIGITS = '0123456789';
+const WORD_CHARACTERS = `abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ${DIGITS}_`;
+
+// Printable ASCII, which negated classes pick from
+const PRINTABLE = Array.from({ length: 95 }, (_, index) => String.fromCharCode(32 + index)).join('');
+
+// A parsed pattern: characters to pick one of, a sequence of repeated parts, or alternatives
+type PatternNode =
+  | { chars: string }
+  | { sequence: Array<{ node: PatternNode; min: number; max: number }> }
+  | { alternatives: PatternNode[] };
+
+// Below this depth, arrays get their minimum length and objects only their required properties
+const SHALLOW_DEPTH = 5;
+
+// Deeper than this (only reached by required recursive properties), values are null
+const MAX_DEPTH = 20;
+
+/**
+ * Create a seeded random number generator (mulberry32) returning values in [0, 1)
+ *
+ * @param seed The seed, so the same seed gives the same values
+ * @returns The generator
+ */
+export function createRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Hash text into a 32-bit seed (FNV-1a)
+ */
+function hashSeed(text: string): number {
+  let hash = 0x811c9dc5;
+  for (let index = 0; index < text.length; index++) {
+    hash = Math.imul(hash ^ text.charCodeAt(index), 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Generate a number within the bounds of a schema
+ */
+function generateNumber(schema: any, integer: boolean, random: () => number): number {
+  // 3.0 marks exclusive bounds with booleans, 3.1 gives them as numbers
+  const exclusiveMin = typeof schema.exclusiveMinimum === 'number' ? schema.exclusiveMinimum :
+    schema.exclusiveMinimum === true ? schema.minimum : undefined;
+  const exclusiveMax = typeof schema.exclusiveMaximum === 'number' ? schema.exclusiveMaximum :
+    schema.exclusiveMaximum === true ? schema.maximum : undefined;
+  const min = exclusiveMin !== undefined ? exclusiveMin : schema.minimum;
+  const max = exclusiveMax !== undefined ? exclusiveMax : schema.maximum;
+
+  // Pick from a window of 1000 at the lower bound (or below the upper one), rather than the whole range
+  const low = typeof min === 'number' && min > -1e6 ? min : typeof max === 'number' && max < 1000 ? max - 1000 : 0;
+  const high = typeof max === 'number' ? Math.min(max, low + 1000) : low + 1000;
+  const step = schema.multipleOf || (integer ? 1 : 0.01);
+
+  let first = Math.ceil(low / step) * step;
+  if (exclusiveMin !== undefined && first <= exclusiveMin) {
+    first += step;
+  }
+  let last = Math.floor(high / step) * step;
+  if (exclusiveMax !== undefined && last >= exclusiveMax) {
+    last -= step;
+  }
+  if (last < first) {
+    return first;
+  }
+
+  const value = first + Math.floor(random() * (Math.round((last - first) / step) + 1)) * step;
+  return Number(value.toFixed(integer ? 0 : 6));
+}
+
+/**
+ * Parse the subset of regular expressions strings can be generated from
+ *
+ * Supports literals, classes, escapes, groups, alternatives and quantifiers. Anchors are skipped.
+ *
+ * @throws Error on lookarounds, backreferences and other syntax that is not supported
+ */
+function parsePattern(pattern: string): PatternNode {
+  let index = 0;
+
+  function unsupported(): never {
+    throw new Error(`Unsupported pattern syntax at position ${index}`);
+  }
+
+  // Characters an escape stands for
+  function parseEscape(): string {
+    const char = pattern[index++];
+    const classes: Record<string, string> = { d: DIGITS, w: WORD_CHARACTERS, s: ' ' };
+    if (char === undefined) {
+      unsupported();
+    }
+    if (classes[char]) {
+      return classes[char];
+    }
+    if (classes[char.toLowerCase()]) {
+      return PRINTABLE.split('').filter((candidate) => !classes[char.toLowerCase()].includes(candidate)).join('');
+    }
+    if (char === 'n' || char === 't') {
+      return char === 'n' ? '\n' : '\t';
+    }
+    if (char === 'u' && /^[0-9a-f]{4}$/i.test(pattern.slice(index, index + 4))) {
+      index += 4;
+      return String.fromCharCode(parseInt(pattern.slice(index - 4, index), 16));
+    }
+    // Word boundaries, backreferences and the like
+    if (/[A-Za-z0-9]/.test(char)) {
+      unsupported();
+    }
+    return char;
+  }
+
+  function parseClass(): string {
+    const negated = pattern[index] === '^';
+    index += negated ? 1 : 0;
+
+    let chars = '';
+    while (pattern[index] !== ']') {
+      if (index >= pattern.length) {
+        unsupported();
+      }
+      let start = pattern[index++];
+      if (start === '\\') {
+        start = parseEscape();
+        if (start.length > 1) {
+          chars += start;
+          continue;
+        }
+      }
+      if (pattern[index] !== '-' || pattern[index + 1] === ']' || pattern[index + 1] === undefined) {
+        chars += start;
+        continue;
+      }
+
+      index++;
+      const end = pattern[index] === '\\' ? (index++, parseEscape()) : pattern[index++];
+      if (end.length !== 1) {
+        unsupported();
+      }
+      for (let code = start.charCodeAt(0); code <= end.charCodeAt(0); code++) {
+        chars += String.fromCharCode(code);
+      }
+    }
+    index++;
+
+    return negated ? PRINTABLE.split('').filter((candidate) => !chars.includes(candidate)).join('') : chars;
+  }
+
+  function parseAtom(): PatternNode {
+    const char = pattern[index++];
+    if (char === '(') {
+      if (pattern[index] === '?') {
+        // Only non-capturing groups, not lookarounds or named groups
+        if (pattern[index + 1] !== ':') {
+          unsupported();
+        }
+        index += 2;
+      }
+      const node = parseAlternatives();
+      if (pattern[index++] !== ')') {
+        unsupported();
+      }
+      return node;
+    }
+    if (char === '[') {
+      return { chars: parseClass() };
+    }
+    if (char === '\\') {
+      return { chars: parseEscape() };
+    }
+    if (char === '.') {
+      return { chars: WORD_CHARACTERS };
+    }
+    if ('*+?{}'.includes(char)) {
+      unsupported();
+    }
+    return { chars: char };
+  }
+
+  // The repetitions of the previous atom, with unbounded ones capped a few past their minimum
+  function parseQuantifier(): { min: number; max: number } {
+    const match = /^(?:([?*+])|\{(\d+)(,(\d*))?\})\??/.exec(pattern.slice(index));
+    if (!match) {
+      return { min: 1, max: 1 };
+    }
+    index += match[0].length;
+
+    if (match[1]) {
+      return match[1] === '?' ? { min: 0, max: 1 } : match[1] === '*' ? { min: 0, max: 3 } : { min: 1, max: 4 };
+    }
+    const min = Number(match[2]);
+    return { min, max: match[3] === undefined ? min : match[4] ? Number(match[4]) : min + 3 };
+  }
+
+  function parseSequence(): PatternNode {
+    const sequence: Array<{ node: PatternNode; min: number; max: number }> = [];
+    while (index < pattern.length && pattern[index] !== '|' && pattern[index] !== ')') {
+      if (pattern[index] === '^' || pattern[index] === '$') {
+        index++;
+        continue;
+      }
+      const node = parseAtom();
+      sequence.push({ node, ...parseQuantifier() });
+    }
+    return { sequence };
+  }
+
+  function parseAlternatives(): PatternNode {
+    const alternatives = [parseSequence()];
+    while (pattern[index] === '|') {
+      index++;
+      alternatives.push(parseSequence());
+    }
+    return alternatives.length === 1 ? alternatives[0] : { alternatives };
+  }
+
+  const node = parseAlternatives();
+  if (index < pattern.length) {
+    unsupported();
+  }
+  return node;
+}
+
+/**
+ * Generate a string matching a parsed pattern
+ */
+function generateFromPattern(node: PatternNode, random: () => number): string {
+  if ('chars' in node) {
+    return node.chars.charAt(Math.floor(random() * node.chars.length));
+  }
+  if ('alternatives' in node) {
+    return generateFromPattern(node.alternatives[Math.floor(random() * node.alternatives.length)], random);
+  }
+  return node.sequence.map(({ node: part, min, max }) =>
+    Array.from({ length: min + Math.floor(random() * (max - min + 1)) }, () => generateFromPattern(part, random)).join('')
+  ).join('');
+}
+
+/**
+ * Generate a string for a schema, honoring its format, pattern and length bounds
+ *
+ * @throws Error when no string matching the pattern and length bounds could be generated
+ */
+function generateString(schema: any, random: () => number): string {
+  const pick = () => WORDS[Math.floor(random() * WORDS.length)];
+  const digits = (count: number) => String(Math.floor(random() * Math.pow(10, count))).padStart(count, '0');
+  const hex = (count: number) => Array.from({ length: count }, () => Math.floor(random() * 16).toString(16)).join('');
+  const date = () => new Date(Date.UTC(2020, 0, 1) + Math.floor(random() * 5 * 365 * 86400) * 1000).toISOString();
+
+  switch (schema.format) {
+    case 'date-time':
+      return date();
+    case 'date':
+      return date().slice(0, 10);
+    case 'time':
+      return date().slice(11, 19);
+    case 'email':
+      return `${pick()}.${digits(2)}@example.com`;
+    case 'uuid':
+      return `${hex(8)}-${hex(4)}-4${hex(3)}-${'89ab'[Math.floor(random() * 4)]}${hex(3)}-${hex(12)}`;
+    case 'uri':
+    case 'url':
+      return `https://example.com/${pick()}`;
+    case 'hostname':
+      return `${pick()}.example.com`;
+    case 'ipv4':
+      return Array.from({ length: 4 }, () => Math.floor(random() * 256)).join('.');
+    case 'ipv6':
+      return Array.from({ length: 8 }, () => hex(4)).join(':');
+    case 'byte':
+      return Buffer.from(pick()).toString('base64');
+  }
+
+  if (typeof schema.pattern === 'string') {
+    let value = '';
+    let fits = false;
+    try {
+      value = generateFromPattern(parsePattern(schema.pattern), random);
+      fits = new RegExp(schema.pattern).test(value) &&
+        (schema.minLength === undefined || value.length >= schema.minLength) &&
+        (schema.maxLength === undefined || value.length <= schema.maxLength);
+    } catch {
+      // Unsupported syntax is reported like a value that does not match
+    }
+
+    if (!fits) {
+      throw new Error(`Cannot generate a string matching /${schema.pattern}/, add an example to the schema`);
+    }
+    return value;
+  }
+
+  let value = Array.from({ length: 1 + Math.floor(random() * 3) }, pick).join(' ');
+  if (schema.maxLength !== undefined) {
+    value = value.slice(0, schema.maxLength).trimEnd();
+  }
+  return schema.minLength !== undefined ? value.padEnd(schema.minLength, 'x') : value;
+}
+
+/**
+ * Generate a value conforming to a JSON Schema of an OpenAPI document
+ *
+ * Examples, constants and defaults are used when the schema has them, at every level.
+ * Nullable values are never null, and one variant of oneOf/anyOf is picked.
+ *
+ * @param schema The JSON Schema (may reference components)
+ * @param document The document the schema belongs to, for $refs
+ * @param random The random number generator
+ * @param depth How deeply nested the schema is
+ * @returns The generated value
+ */
+export function generateMockValue(schema: any, document: any, random: () => number, depth = 0): unknown {
+  if (!schema || typeof schema !== 'object' || depth > MAX_DEPTH) {
+    return null;
+  }
+  if (schema.$ref) {
+    return generateMockValue(resolveRef(document, schema.$ref), document, random, depth + 1);
+  }
+
+  if (schema.example !== undefined) {
+    return schema.example;
+  }
+  if (Array.isArray(schema.examples) && schema.examples.length > 0) {
+    return schema.examples[0];
+  }
+  if (schema.const !== undefined) {
+    return schema.const;
+  }
+  if (schema.default !== undefined) {
+    return schema.default;
+  }
+  if (Array.isArray(schema.enum) && schema.enum.length > 0) {
+    const values = schema.enum.filter((value: unknown) => value !== null);
+    return values.length > 0 ? values[Math.floor(random() * values.length)] : null;
+  }
+
+  if (Array.isArray(schema.allOf)) {
+    const parts = schema.allOf.map((part: any) => generateMockValue(part, document, random, depth + 1));
+    const objects = parts.every((part: unknown) => typeof part === 'object' && part !== null && !Array.isArray(part));
+    return objects ? Object.assign({}, ...parts) : parts[parts.length - 1];
+  }
+
+  const variants = schema.oneOf || schema.anyOf;
+  if (Array.isArray(variants)) {
+    const candidates = variants.filter((variant: any) => variant.type !== 'null');
+    const chosen = candidates.length > 0 ? candidates[Math.floor(random() * candidates.length)] : variants[0];
+    return generateMockValue(chosen, document, random, depth + 1);
+  }
+
+  // 3.1 gives nullable types as arrays including 'null'
+  const types = (Array.isArray(schema.type) ? schema.type : [schema.type]).filter((type: unknown) => type && type !== 'null');
+  const type = types[0] || (schema.properties || schema.additionalProperties ? 'object' : schema.items ? 'array' : undefined);
+  const shallow = depth >= SHALLOW_DEPTH;
+
+  switch (type) {
+    case 'object': {
+      const required: string[] = schema.required || [];
+      const value: Record<string, unknown> = {};
+      Object.entries<any>(schema.properties || {}).forEach(([name, property]) => {
+        if (!shallow || required.includes(name)) {
+          value[name] = generateMockValue(property, document, random, depth + 1);
+        }
+      });
+      if (!schema.properties && schema.additionalProperties && typeof schema.additionalProperties === 'object' && !shallow) {
+        value[WORDS[Math.floor(random() * WORDS.length)]] = generateMockValue(schema.additionalProperties, document, random, depth + 1);
+      }
+      return value;
+    }
+    case 'array': {
+      const min = schema.minItems || 0;
+      const max = schema.maxItems !== undefined ? schema.maxItems : min + 3;
+      const length = shallow ? min : Math.min(max, Math.max(min, 1 + Math.floor(random() * 3)));
+      return Array.from({ length }, () => generateMockValue(schema.items, document, random, depth + 1));
+    }
+    case 'string':
+      return generateString(schema, random);
+    case 'integer':
+      return generateNumber(schema, true, random);
+    case 'number':
+      return generateNumber(schema, false, random);
+    case 'boolean':
+      return random() < 0.5;
+    default:
+      return null;
+  }
+}
+
+/**
+ * Read a preference of the Prefer header, e.g. code from `Prefer: code=404`
+ */
+function readPreference(req: Request, name: string): string | undefined {
+  const match = new RegExp(`(?:^|[,;\\s])${name}=("?)([^",;\\s]+)\\1`).exec(req.get('prefer') || '');
+  return match ? match[2] : undefined;
+}
+
+/**
+ * Respond to a request with generated data for an operation of a document
+ *
+ * The first 2XX response is sent unless `Prefer: code=<status>` picks another documented one.
+ * Examples of the media type are used when present (a named one with `Prefer: example=<name>`),
+ * otherwise data is generated from the schema, seeded by the request so responses are stable.
+ * When the route's Zod responses are given, a value not matching them is never sent.
+ *
+ * @param req The request
+ * @param res The response
+ * @param next The next function, given an error when the preferred status is not documented or
+ *   no valid value could be produced
+ * @param document The OpenAPI document
+ * @param route The method and OpenAPI path of the operation, and the route's responses if known
+ * @param options The mock options
+ */
+export function sendMock(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  document: any,
+  route: { method: HttpMethod; path: string; responses?: Record<string | number, ResponseObject> },
+  options: MockOptions = {}
+): void {
+  const operation = document.paths && document.paths[route.path] && document.paths[route.path][route.method];
+  const responses: Record<string, any> = (operation && operation.responses) || {};
+  const keys = Object.keys(responses);
+
+  const preferred = readPreference(req, 'code');
+  const key = preferred ?
+    [preferred, `${preferred[0]}XX`, 'default'].find((candidate) => /^\d{3}$/.test(preferred) && responses[candidate]) :
+    keys.filter((candidate) => /^2/.test(candidate)).sort()[0] || keys[0];
+
+  if (!key) {
+    const err: any = new Error(preferred ?
+      `Cannot mock ${route.method.toUpperCase()} ${route.path}: status ${preferred} is not documented` :
+      `Cannot mock ${route.method.toUpperCase()} ${route.path}: no responses are documented`);
+    err.status = preferred ? 400 : 501;
+    err.errors = [`Documented statuses: ${keys.join(', ') || 'none'}`];
+    next(err);
+    return;
+  }
+
+  // Ranges and default are sent with the preferred status, or the first one they cover
+  const status = Number(preferred || (/^\d{3}$/.test(key) ? key : key === 'default' ? '200' : `${key[0]}00`));
+  const response = dereference(document, responses[key]);
+  const content: Record<string, any> = response.content || {};
+  const mediaType = Object.keys(content).find((type) => isJsonContentType(type)) || Object.keys(content)[0];
+
+  if (!mediaType) {
+    res.status(status).end();
+    return;
+  }
+
+  const media = content[mediaType];
+  const examples: Record<string, any> = media.examples || {};
+  const exampleName = readPreference(req, 'example');
+  const description = `${route.method.toUpperCase()} ${route.path} (${status})`;
+
+  let value: unknown;
+  if (exampleName && examples[exampleName]) {
+    value = dereference(document, examples[exampleName]).value;
+  } else if (media.example !== undefined) {
+    value = media.example;
+  } else if (Object.keys(examples).length > 0) {
+    value = dereference(document, examples[Object.keys(examples)[0]]).value;
+  } else {
+    const seed = hashSeed(`${options.seed || 0} ${req.method} ${req.originalUrl.split('?')[0]} ${status}`);
+    try {
+      value = generateMockValue(media.schema, document, createRandom(seed));
+    } catch (error: any) {
+      const err: any = new Error(`Cannot mock ${description}: ${error.message}`);
+      err.status = 501;
+      next(err);
+      return;
+    }
+  }
+
+  // Wildcard media types are sent as JSON
+  const sentType = mediaType.includes('*') ? 'application/json' : mediaType;
+
+  // Generation only knows the document, so check the value against the route's schema as well
+  const schema = route.responses && findResponseSchema(route.responses, status, sentType);
+  const result = schema && schema.safeParse(value);
+  if (result && !result.success) {
+    const err: any = new Error(`Cannot mock ${description}: the mocked response does not match the route's schema, add an example`);
+    err.status = 501;
+    err.errors = result.error.issues;
+    next(err);
+    return;
+  }
+
+  res.status(status);
+  if (isJsonContentType(sentType)) {
+    res.type(sentType).json(value);
+  } else {
+    res.type(sentType).send(typeof value === 'string' ? value : JSON.stringify(value));
+  }
+}
+
+/**
+ * Create a router serving every operation of a registry's document with generated data
+ *
+ * Routes are rebuilt from the document whenever the registry changes. Requests are not validated.
+ *
+ * @param registry The registry whose document is served
+ * @param options The mock options
+ * @returns The router
+ */
+export function createMockRouter(registry: Registry, options: MockOptions = {}): Router {
+  const router = Router();
+  let routes: { revision: number; router: Router } | undefined;
+
+  function buildRoutes(document: any): Router {
+    const operations = Router();
+    Object.entries<any>(document.paths || {}).forEach(([path, pathItem]) => {
+      DOCUMENT_METHODS.filter((method) => pathItem[method]).forEach((method) => {
+        operations[method](toExpressPath(path), (req: Request, res: Response, next: NextFunction) => {
+          sendMock(req, res, next, document, { method, path }, options);
+        });
+      });
+    });
+    return operations;
+  }
+
+  router.use((req: Request, res: Response, next: NextFunction) => {
+    const revision = registry.getRevision();
+    if (!routes || routes.revision !== revision) {
+      routes = { revision, router: buildRoutes(registry.generateOpenAPIDocument()) };
+    }
+    routes.router(req, res, next);
+  });
+
+  return router;
+}
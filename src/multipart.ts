@@ -0,0 +1,336 @@
+import { Request } from 'express';
+import { z, ZodType } from 'zod';
+import { extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+import { FileFieldOptions, FileFieldSchema, MultipartLimits, UploadedFile } from './types';
+
+// Extend Zod with OpenAPI support
+extendZodWithOpenApi(z);
+
+// Limits used when the body schema does not imply a tighter one
+const DEFAULT_LIMITS: Required<MultipartLimits> = {
+  fileSize: 10 * 1024 * 1024,
+  files: 20,
+  fields: 1000,
+  fieldSize: 1024 * 1024
+};
+
+// Largest header block accepted for a single part
+const MAX_PART_HEADER_SIZE = 16 * 1024;
+
+// Options of every schema created by fileField(), used to derive parser limits
+const fileFieldOptions = new WeakMap<ZodType, FileFieldOptions<number>>();
+
+/**
+ * Check whether a value is a file produced by the multipart parser
+ */
+function isUploadedFile(value: unknown): value is UploadedFile {
+  return typeof value === 'object' && value !== null && Buffer.isBuffer((value as UploadedFile).buffer);
+}
+
+/**
+ * Check a MIME type against exact types and wildcards such as 'image/*'
+ */
+function matchesMimeType(mimeType: string, allowed: string[]): boolean {
+  return allowed.some((pattern) =>
+    pattern.endsWith('/*') ? mimeType.startsWith(pattern.slice(0, -1)) : mimeType === pattern
+  );
+}
+
+/**
+ * Create a schema for a file field in a multipart/form-data body
+ *
+ * The schema validates files produced by the built-in multipart parser and is documented
+ * in OpenAPI as `type: string, format: binary`.
+ *
+ * @param options Size limit, allowed MIME types and maximum number of files
+ * @returns A Zod schema usable inside a `body` object schema
+ */
+export function fileField<TMaxCount extends number = 1>(
+  options: FileFieldOptions<TMaxCount> = {}
+): FileFieldSchema<TMaxCount> {
+  const { maxSize, mimeTypes, maxCount = 1 } = options;
+
+  const singleFile = z.custom<UploadedFile>(isUploadedFile, { message: 'Expected a file' })
+    .superRefine((file, ctx) => {
+      if (maxSize !== undefined && file.size > maxSize) {
+        ctx.addIssue({ code: 'custom', message: `File must be at most ${maxSize} bytes` });
+      }
+      if (mimeTypes && !matchesMimeType(file.mimeType, mimeTypes)) {
+        ctx.addIssue({ code: 'custom', message: `File type must be one of: ${mimeTypes.join(', ')}` });
+      }
+    })
+    .openapi({ type: 'string', format: 'binary' });
+
+  // A single upload to a multi-file field still arrives as one value, so wrap it
+  const schema = maxCount === 1 ? singleFile : z.preprocess(
+    (value) => (value === undefined || Array.isArray(value) ? value : [value]),
+    z.array(singleFile).max(maxCount, { message: `At most ${maxCount} files are allowed` })
+  ).openapi({ type: 'array', items: { type: 'string', format: 'binary' }, maxItems: maxCount });
+
+  fileFieldOptions.set(schema, options);
+  return schema as unknown as FileFieldSchema<TMaxCount>;
+}
+
+/**
+ * Find the fileField() options behind a schema, looking through optional/nullable/default wrappers
+ */
+function findFileFieldOptions(schema: ZodType): FileFieldOptions<number> | undefined {
+  let current: any = schema;
+  while (current) {
+    const options = fileFieldOptions.get(current);
+    if (options) {
+      return options;
+    }
+    current = current._zod && current._zod.def.innerType;
+  }
+  return undefined;
+}
+
+/**
+ * Derive parser limits from the file fields declared in a multipart body schema
+ *
+ * @param schema The multipart/form-data body schema
+ * @returns Limits allowing exactly the declared files
+ */
+export function deriveMultipartLimits(schema: ZodType): MultipartLimits {
+  const shape = (schema as any).shape;
+  if (!shape) {
+    return {};
+  }
+
+  const fields = Object.values(shape)
+    .map((field) => findFileFieldOptions(field as ZodType))
+    .filter((options): options is FileFieldOptions<number> => Boolean(options));
+
+  return {
+    files: fields.reduce((total, options) => total + (options.maxCount || 1), 0),
+    fileSize: fields.length > 0 ? Math.max(...fields.map((options) => options.maxSize || DEFAULT_LIMITS.fileSize)) : 0
+  };
+}
+
+/**
+ * Create an error carrying an HTTP status, like the validation errors
+ */
+function createMultipartError(status: number, message: string): Error {
+  const err: any = new Error(message);
+  err.status = status;
+  return err;
+}
+
+/**
+ * Stream a multipart/form-data request body into fields and files
+ *
+ * Text fields become strings and files become UploadedFile objects. Repeated names are
+ * collected into arrays. Limits are enforced while reading, before a part is buffered in full.
+ *
+ * @param req The request to read
+ * @param limits Limits overriding the defaults
+ * @returns The parsed body
+ */
+export function parseMultipart(req: Request, limits: MultipartLimits = {}): Promise<Record<string, unknown>> {
+  const { fileSize, files, fields, fieldSize } = { ...DEFAULT_LIMITS, ...limits };
+  const match = /boundary=(?:"([^"]+)"|([^;\s]+))/i.exec(req.headers['content-type'] || '');
+
+  if (!match) {
+    return Promise.reject(createMultipartError(400, 'Missing multipart boundary'));
+  }
+
+  const delimiter = Buffer.from(`\r\n--${match[1] || match[2]}`);
+
+  return new Promise((resolve, reject) => {
+    const result: Record<string, unknown> = {};
+
+    // Prefix a CRLF so the first boundary matches the same delimiter as the others
+    let buffer = Buffer.from('\r\n');
+    let state: 'preamble' | 'boundary' | 'headers' | 'body' | 'done' = 'preamble';
+    let part: { name: string; filename?: string; mimeType: string; chunks: Buffer[]; size: number } | undefined;
+    let skipPart = false;
+    let fileCount = 0;
+    let fieldCount = 0;
+    let failed = false;
+
+    function fail(err: Error): void {
+      failed = true;
+      req.removeListener('data', onData);
+      req.removeListener('end', onEnd);
+      // Drain the rest of the upload so the response can still be sent
+      req.resume();
+      reject(err);
+    }
+
+    function startPart(headerBlock: string): void {
+      const headers: Record<string, string> = {};
+      headerBlock.split('\r\n').forEach((line) => {
+        const index = line.indexOf(':');
+        if (index > 0) {
+          headers[line.slice(0, index).trim().toLowerCase()] = line.slice(index + 1).trim();
+        }
+      });
+
+      const disposition = headers['content-disposition'] || '';
+      const name = /\bname="([^"]*)"/i.exec(disposition);
+      const filename = /\bfilename="([^"]*)"/i.exec(disposition);
+
+      // Parts without a usable name are read and discarded
+      if (!name || name[1] === '__proto__') {
+        skipPart = true;
+        return;
+      }
+
+      if (filename) {
+        fileCount++;
+        if (fileCount > files) {
+          fail(createMultipartError(413, `Too many files (limit is ${files})`));
+          return;
+        }
+      } else {
+        fieldCount++;
+        if (fieldCount > fields) {
+          fail(createMultipartError(413, `Too many fields (limit is ${fields})`));
+          return;
+        }
+      }
+
+      part = {
+        name: name[1],
+        filename: filename ? filename[1] : undefined,
+        mimeType: headers['content-type'] || (filename ? 'application/octet-stream' : 'text/plain'),
+        chunks: [],
+        size: 0
+      };
+    }
+
+    function writePart(data: Buffer): void {
+      if (!part || data.length === 0) {
+        return;
+      }
+
+      part.size += data.length;
+      const isFile = part.filename !== undefined;
+      if (part.size > (isFile ? fileSize : fieldSize)) {
+        fail(createMultipartError(413, isFile
+          ? `File "${part.name}" exceeds the size limit of ${fileSize} bytes`
+          : `Field "${part.name}" exceeds the size limit of ${fieldSize} bytes`));
+        return;
+      }
+
+      part.chunks.push(data);
+    }
+
+    function finishPart(): void {
+      if (part) {
+        const content = Buffer.concat(part.chunks);
+        const value: unknown = part.filename !== undefined ? {
+          fieldName: part.name,
+          originalName: part.filename,
+          mimeType: part.mimeType,
+          size: content.length,
+          buffer: content
+        } : content.toString('utf8');
+
+        const existing = result[part.name];
+        if (!Object.prototype.hasOwnProperty.call(result, part.name)) {
+          result[part.name] = value;
+        } else if (Array.isArray(existing)) {
+          existing.push(value);
+        } else {
+          result[part.name] = [existing, value];
+        }
+      }
+
+      part = undefined;
+      skipPart = false;
+    }
+
+    function processBuffer(): void {
+      while (!failed) {
+        if (state === 'preamble') {
+          const index = buffer.indexOf(delimiter);
+          if (index === -1) {
+            buffer = buffer.subarray(Math.max(0, buffer.length - delimiter.length + 1));
+            return;
+          }
+          buffer = buffer.subarray(index + delimiter.length);
+          state = 'boundary';
+        } else if (state === 'boundary') {
+          if (buffer.length < 2) {
+            return;
+          }
+          // A delimiter followed by -- closes the body
+          if (buffer[0] === 0x2d && buffer[1] === 0x2d) {
+            state = 'done';
+            return;
+          }
+          // Skip to the end of the delimiter line (transport padding is allowed)
+          const index = buffer.indexOf('\r\n');
+          if (index === -1) {
+            return;
+          }
+          buffer = buffer.subarray(index + 2);
+          state = 'headers';
+        } else if (state === 'headers') {
+          // A part may have no headers at all
+          const index = buffer.subarray(0, 2).toString() === '\r\n' ? -2 : buffer.indexOf('\r\n\r\n');
+          if (index === -1) {
+            if (buffer.length > MAX_PART_HEADER_SIZE) {
+              fail(createMultipartError(400, 'Multipart part headers are too large'));
+            }
+            return;
+          }
+          startPart(index < 0 ? '' : buffer.subarray(0, index).toString('utf8'));
+          buffer = buffer.subarray(index + 4);
+          state = 'body';
+        } else if (state === 'body') {
+          const index = buffer.indexOf(delimiter);
+          if (index === -1) {
+            // Hold back enough bytes to detect a delimiter split across chunks
+            const safeLength = buffer.length - delimiter.length + 1;
+            if (safeLength > 0) {
+              if (!skipPart) {
+                writePart(buffer.subarray(0, safeLength));
+              }
+              buffer = buffer.subarray(safeLength);
+            }
+            return;
+          }
+          if (!skipPart) {
+            writePart(buffer.subarray(0, index));
+          }
+          if (failed) {
+            return;
+          }
+          finishPart();
+          buffer = buffer.subarray(index + delimiter.length);
+          state = 'boundary';
+        } else {
+          // Ignore the epilogue
+          return;
+        }
+      }
+    }
+
+    function onData(chunk: Buffer): void {
+      buffer = Buffer.concat([buffer, chunk]);
+      processBuffer();
+    }
+
+    function onEnd(): void {
+      if (failed) {
+        return;
+      }
+      if (state !== 'done') {
+        reject(createMultipartError(400, 'Unexpected end of multipart body'));
+        return;
+      }
+      resolve(result);
+    }
+
+    req.on('data', onData);
+    req.on('end', onEnd);
+    req.once('error', (err: Error) => {
+      if (!failed) {
+        fail(err);
+      }
+    });
+  });
+}
@@ -0,0 +1,90 @@
+/**
+ * Helpers shared by the modules that read OpenAPI documents and send the requests they describe
+ *
+ * The plus-express/client entry point uses this module, so it must not import Express or Zod.
+ */
+import type { HttpMethod } from './route-types';
+
+// Methods an OpenAPI path item can declare operations for
+export const DOCUMENT_METHODS: HttpMethod[] = ['get', 'post', 'put', 'delete', 'patch', 'options', 'head'];
+
+/**
+ * Resolve a local $ref such as #/components/schemas/User
+ *
+ * @param document The document containing the reference
+ * @param ref The reference
+ * @returns The referenced value
+ * @throws Error when the reference is not local or does not exist
+ */
+export function resolveRef(document: any, ref: string): any {
+  if (!ref.startsWith('#/')) {
+    throw new Error(`Only local references are supported, got ${ref}`);
+  }
+
+  const value = ref.slice(2).split('/').reduce((current: any, segment) => {
+    const key = segment.replace(/~1/g, '/').replace(/~0/g, '~');
+    return current !== undefined && current !== null ? current[key] : undefined;
+  }, document);
+
+  if (value === undefined) {
+    throw new Error(`Cannot resolve reference ${ref}`);
+  }
+  return value;
+}
+
+/**
+ * Follow $refs until a value without one is reached
+ *
+ * @param document The document containing the references
+ * @param value A value that may be a reference object
+ * @returns The referenced value
+ */
+export function dereference(document: any, value: any): any {
+  let current = value;
+  const seen = new Set<string>();
+
+  while (current && typeof current.$ref === 'string') {
+    if (seen.has(current.$ref)) {
+      throw new Error(`Circular reference ${current.$ref}`);
+    }
+    seen.add(current.$ref);
+    current = resolveRef(document, current.$ref);
+  }
+  return current;
+}
+
+/**
+ * List the parameters of an operation with their $refs resolved
+ *
+ * Operation parameters override path-level ones with the same name and location.
+ *
+ * @param document The document containing the operation
+ * @param pathItem The path item of the operation
+ * @param operation The operation
+ * @returns The parameters, path-level ones first
+ */
+export function mergeParameters(document: any, pathItem: any, operation: any): any[] {
+  return [...(pathItem.parameters || []), ...(operation.parameters || [])]
+    .map((parameter: any) => dereference(document, parameter))
+    .reduce((merged: any[], parameter: any) => [
+      ...merged.filter((existing) => existing.name !== parameter.name || existing.in !== parameter.in),
+      parameter
+    ], []);
+}
+
+/**
+ * Check whether a content type carries JSON
+ */
+export function isJsonContentType(contentType: string): boolean {
+  return /^application\/([\w.-]+\+)?json\b/i.test(contentType);
+}
+
+/**
+ * Convert a query value to text
+ */
+export function toQueryValue(value: unknown): string {
+  if (value instanceof Date) {
+    return value.toISOString();
+  }
+  return typeof value === 'object' && value !== null ? JSON.stringify(value) : String(value);
+}
@@ -0,0 +1,305 @@
+/**
+ * Parsing of Express 5 route paths (path-to-regexp v8 syntax) into OpenAPI paths
+ *
+ * Supported syntax: `:name` and `:"quoted name"` params, `*name` wildcards (splats),
+ * `{...}` optional groups (which may nest) and `\` escapes.
+ *
+ * Express 4 paths are read leniently where Express 5 would reject them: `:name?` is an optional
+ * group, and `:name(pattern)`, `:name*` and unnamed `*` (params 0, 1, ...) are plain params, since
+ * Express 4 passes their values as strings. Unnamed `(...)` groups are still rejected.
+ */
+
+// Characters allowed in unquoted param names, as in path-to-regexp
+const ID_START = /^[$_\p{ID_Start}]$/u;
+const ID_CONTINUE = /^[$\u200c\u200d\p{ID_Continue}]$/u;
+
+// Characters path-to-regexp reserves and rejects unless escaped
+const RESERVED = new Set(['(', ')', '[', ']', '+', '?', '!']);
+
+// Optional groups are expanded into one documented path per combination, up to this many
+const MAX_PATH_VARIANTS = 16;
+
+export type PathToken =
+  | { type: 'text'; value: string }
+  | { type: 'param'; name: string }
+  | { type: 'wildcard'; name: string }
+  | { type: 'group'; tokens: PathToken[] };
+
+// A path parameter and how it appears in the path
+export interface PathParam {
+  name: string;
+  wildcard: boolean; // Matches one or more segments, as an array
+  optional: boolean; // Inside an optional group
+}
+
+// One documented OpenAPI path of an Express path
+export interface OpenApiPathVariant {
+  path: string;
+  params: string[]; // Names of the params present in this variant
+}
+
+/**
+ * Parse an Express 5 path into tokens
+ *
+ * @param path The Express path
+ * @returns The tokens, with optional groups nested
+ * @throws Error when the path is not valid Express syntax
+ */
+export function parseExpressPath(path: string): PathToken[] {
+  const chars = Array.from(path);
+  let index = 0;
+  // Express 4 numbers unnamed wildcards
+  let unnamed = 0;
+
+  function startsName(at: number): boolean {
+    return ID_START.test(chars[at] || '') || chars[at] === '"';
+  }
+
+  function readName(): string {
+    let name = '';
+
+    if (ID_START.test(chars[index] || '')) {
+      do {
+        name += chars[index++];
+      } while (index < chars.length && ID_CONTINUE.test(chars[index]));
+    } else if (chars[index] === '"') {
+      const start = index++;
+      let closed = false;
+      while (index < chars.length) {
+        if (chars[index] === '"') {
+          index++;
+          closed = true;
+          break;
+        }
+        if (chars[index] === '\\') {
+          index++;
+        }
+        name += chars[index++] || '';
+      }
+      if (!closed) {
+        throw new Error(`Unterminated quote at index ${start}`);
+      }
+    }
+
+    if (!name) {
+      throw new Error(`Missing parameter name at index ${index}`);
+    }
+    return name;
+  }
+
+  /**
+   * Add a param, reading the Express 4 pattern and modifiers that may follow its name
+   */
+  function readParam(tokens: PathToken[], name: string): void {
+    // A custom pattern, e.g. :id(\\d+), is documented as a plain param
+    if (chars[index] === '(') {
+      const start = index;
+      let depth = 0;
+      do {
+        if (chars[index] === '\\') {
+          index++;
+        } else if (chars[index] === '(') {
+          depth++;
+        } else if (chars[index] === ')') {
+          depth--;
+        }
+        index++;
+      } while (index < chars.length && depth > 0);
+      if (depth > 0) {
+        throw new Error(`Unterminated pattern at index ${start}`);
+      }
+    }
+
+    // Unless a wildcard name follows, * makes it an Express 4 wildcard (still a string)
+    const token: PathToken = { type: 'param', name };
+    if (chars[index] === '*' && !startsName(index + 1)) {
+      index++;
+    }
+    if (chars[index] !== '?') {
+      tokens.push(token);
+      return;
+    }
+    index++;
+
+    // Optional params take the / or . before them along, as in Express 4
+    const previous = tokens[tokens.length - 1];
+    const group: PathToken[] = [token];
+    if (previous && previous.type === 'text' && /[/.]$/.test(previous.value)) {
+      group.unshift({ type: 'text', value: previous.value.slice(-1) });
+      previous.value = previous.value.slice(0, -1);
+      if (!previous.value) {
+        tokens.pop();
+      }
+    }
+    tokens.push({ type: 'group', tokens: group });
+  }
+
+  function readTokens(inGroup: boolean): PathToken[] {
+    const tokens: PathToken[] = [];
+    let text = '';
+
+    function flushText(): void {
+      if (text) {
+        tokens.push({ type: 'text', value: text });
+        text = '';
+      }
+    }
+
+    while (index < chars.length) {
+      const char = chars[index];
+
+      if (char === '\\') {
+        text += chars[index + 1] || '';
+        index += 2;
+      } else if (char === '*' && !startsName(index + 1)) {
+        // Express 4 unnamed wildcard, a string param
+        flushText();
+        index++;
+        tokens.push({ type: 'param', name: String(unnamed++) });
+      } else if (char === ':') {
+        flushText();
+        index++;
+        readParam(tokens, readName());
+      } else if (char === '*') {
+        flushText();
+        index++;
+        tokens.push({ type: 'wildcard', name: readName() });
+      } else if (char === '{') {
+        flushText();
+        index++;
+        tokens.push({ type: 'group', tokens: readTokens(true) });
+      } else if (char === '}') {
+        if (!inGroup) {
+          throw new Error(`Unexpected } at index ${index}`);
+        }
+        index++;
+        flushText();
+        return tokens;
+      } else if (RESERVED.has(char)) {
+        throw new Error(`Unexpected ${char} at index ${index}, escape it with \\\\`);
+      } else {
+        text += char;
+        index++;
+      }
+    }
+
+    if (inGroup) {
+      throw new Error('Unterminated optional group');
+    }
+    flushText();
+    return tokens;
+  }
+
+  return readTokens(false);
+}
+
+/**
+ * List the params of an Express path
+ *
+ * @param path The Express path
+ * @returns Every param once, in order of appearance
+ * @throws Error when the path is not valid Express syntax
+ */
+export function getPathParams(path: string): PathParam[] {
+  const params: PathParam[] = [];
+
+  function collect(tokens: PathToken[], optional: boolean): void {
+    tokens.forEach((token) => {
+      if (token.type === 'group') {
+        collect(token.tokens, true);
+      } else if (token.type !== 'text' && !params.some((param) => param.name === token.name)) {
+        params.push({ name: token.name, wildcard: token.type === 'wildcard', optional });
+      }
+    });
+  }
+
+  collect(parseExpressPath(path), false);
+  return params;
+}
+
+/**
+ * Expand optional groups into every combination of present and absent groups
+ */
+function expandGroups(tokens: PathToken[]): PathToken[][] {
+  let variants: PathToken[][] = [[]];
+
+  tokens.forEach((token) => {
+    if (token.type !== 'group') {
+      variants = variants.map((variant) => [...variant, token]);
+      return;
+    }
+
+    // The variant without the group comes first
+    const groupVariants = expandGroups(token.tokens);
+    variants = variants.reduce<PathToken[][]>((expanded, variant) => [
+      ...expanded,
+      variant,
+      ...groupVariants.map((groupVariant) => [...variant, ...groupVariant])
+    ], []);
+  });
+
+  return variants;
+}
+
+/**
+ * Translate an Express path into the OpenAPI paths it matches
+ *
+ * Each optional group doubles the number of paths: `/files{.:ext}` becomes `/files` and
+ * `/files.{ext}`. Wildcards are documented as a single path param (whose value may contain `/`).
+ *
+ * @param path The Express path
+ * @returns The OpenAPI paths, the one without optional groups first
+ * @throws Error when the path cannot be represented in OpenAPI
+ */
+export function getOpenApiPaths(path: string): OpenApiPathVariant[] {
+  const variants = expandGroups(parseExpressPath(path));
+  if (variants.length > MAX_PATH_VARIANTS) {
+    throw new Error(`Optional groups expand to more than ${MAX_PATH_VARIANTS} paths`);
+  }
+
+  const seen = new Set<string>();
+
+  return variants.reduce<OpenApiPathVariant[]>((result, tokens) => {
+    let openApiPath = '';
+    const params: string[] = [];
+
+    tokens.forEach((token) => {
+      if (token.type === 'text') {
+        // Braces in the text would be read as a path template
+        if (/[{}]/.test(token.value)) {
+          throw new Error('Literal { and } cannot appear in an OpenAPI path');
+        }
+        openApiPath += token.value;
+      } else if (token.type !== 'group') {
+        if (params.includes(token.name)) {
+          throw new Error(`Parameter ${token.name} appears more than once`);
+        }
+        openApiPath += `{${token.name}}`;
+        params.push(token.name);
+      }
+    });
+
+    if (!openApiPath.startsWith('/')) {
+      openApiPath = `/${openApiPath}`;
+    }
+
+    if (!seen.has(openApiPath)) {
+      seen.add(openApiPath);
+      result.push({ path: openApiPath, params });
+    }
+    return result;
+  }, []);
+}
+
+/**
+ * Get the operationId of one of several documented paths of an operation
+ *
+ * OpenAPI requires unique operationIds, so paths after the first get a numeric suffix.
+ *
+ * @param operationId The declared operationId
+ * @param index The index of the documented path
+ * @returns The operationId for that path
+ */
+export function getVariantOperationId(operationId: string | undefined, index: number): string | undefined {
+  return operationId && index > 0 ? `${operationId}_${index}` : operationId;
+}
@@ -1,19 +1,70 @@
-import { Request, Response, NextFunction, RequestHandler } from 'express';
-import { z, ZodError, ZodType, ZodObject } from 'zod';
-import { OpenAPIRegistry, OpenApiGeneratorV3, extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
+import { Request, Response, NextFunction, RequestHandler, Router } from 'express';
+import { z, ZodError, ZodType, ZodObject, ZodSafeParseResult } from 'zod';
+import { OpenAPIRegistry, OpenApiGeneratorV3, OpenApiGeneratorV31, extendZodWithOpenApi } from '@asteasolutions/zod-to-openapi';
 import extend from 'extend';
 import { 
   HttpMethod, 
+  RouteMethod,
   EndpointOptions, 
   ValidatedRequest, 
   OpenAPIConfig, 
   ApiOptions,
-  Registry
+  Registry,
+  RequestPart,
+  BodySchema,
+  BodyContentMap,
+  ResponsesMap,
+  EndpointMiddleware,
+  WebhookOptions,
+  DocsRouterOptions,
+  MockOptions,
+  SpecOperation
 } from './types';
+import { createDocsRouter } from './docs';
+import { interceptResponses } from './responses';
+import {
+  REQUEST_PARTS,
+  collectValidationIssues,
+  combineValidationErrors,
+  selectBodyContentType,
+  resolveStrictOptions,
+  createStrictHeaderSchema
+} from './validation';
+import { deriveMultipartLimits, parseMultipart } from './multipart';
+import { parseCookieHeader } from './utils';
+import { getOpenApiPaths, getVariantOperationId, OpenApiPathVariant } from './paths';
+import { loadSpec } from './spec';
+import { createMockRouter, sendMock } from './mock';
 
 // Extend Zod with OpenAPI support
 extendZodWithOpenApi(z);
 
+// Methods an all() route is documented for
+const DOCUMENTED_METHODS: HttpMethod[] = ['get', 'post', 'put', 'delete', 'patch', 'options', 'head'];
+
+// A request part paired with the schema and input it is validated with
+interface RequestPartCheck {
+  part: RequestPart;
+  schema: ZodType;
+  value: unknown;
+}
+
+/**
+ * Normalize a body option into schemas keyed by content type (JSON unless a map is given)
+ */
+function toBodyContent(body: BodySchema): BodyContentMap {
+  return body instanceof ZodType ? { 'application/json': body } : body;
+}
+
+/**
+ * Convert body schemas keyed by content type into an OpenAPI content object
+ */
+function toOpenApiContent(content: BodyContentMap): Record<string, { schema: ZodType }> {
+  return Object.fromEntries(
+    Object.entries(content).map(([contentType, schema]) => [contentType, { schema }])
+  );
+}
+
 /**
  * Create a registry with chainable configuration methods
  */
@@ -24,7 +75,24 @@ export function createRegistry(options: ApiOptions = {}): Registry {
   // Extract initial options with defaults
   let defaultQuerySchema = options.defaultQuerySchema || z.object({});
   let defaultHeaderSchema = options.defaultHeaderSchema || z.object({});
+  let defaultCookieSchema = options.defaultCookieSchema || z.object({});
   let defaultResponses = options.defaultResponses || {};
+  // Params of the path a router is mounted at, validated by every route of the router
+  let mountParams = options.mountParams;
+  const validateResponses = options.validateResponses || false;
+  const serializeResponses = options.serializeResponses || false;
+  const formatValidationError = options.formatValidationError;
+  const onValidationError = options.onValidationError;
+  const asyncValidation = options.asyncValidation || false;
+  const strict = options.strict || false;
+  const onWarning = options.onWarning || ((message: string) => console.warn(message));
+  // In mock mode, validated requests are answered with generated data instead of the handlers
+  let mockOptions: MockOptions | undefined = options.mock === true ? {} : options.mock || undefined;
+  // Incremented on every change that affects the generated document
+  let revision = 0;
+  // Last generated document, reused while the revision and config are unchanged
+  let documentCache: { revision: number; config: string; document: any } | undefined;
+
   const openApiConfig: OpenAPIConfig = options.openApiConfig || {
     openapi: '3.0.0',
     info: {
@@ -33,18 +101,42 @@ export function createRegistry(options: ApiOptions = {}): Registry {
     },
   };
 
+  // Operations of the spec-first document by operationId, and those registered so far
+  const specOperations = new Map<string, SpecOperation>();
+  const implementedOperations = new Set<string>();
+
+  if (options.spec) {
+    const { document, operations } = loadSpec(options.spec, onWarning);
+    operations.forEach((operation) => specOperations.set(operation.operationId, operation));
+
+    // The document describes the API unless a configuration is given
+    if (!options.openApiConfig) {
+      openApiConfig.openapi = document.openapi;
+      openApiConfig.info = { ...openApiConfig.info, ...document.info };
+      openApiConfig.servers = document.servers;
+      openApiConfig.security = document.security;
+    }
+    Object.entries((document.components && document.components.securitySchemes) || {}).forEach(([name, scheme]) => {
+      openApiRegistry.registerComponent('securitySchemes', name, scheme as any);
+    });
+  }
+
   /**
    * Create an endpoint middleware that validates requests and registers schemas
    */
   function createEndpoint<
-    TBody extends ZodType = ZodType,
+    TBody extends BodySchema = BodySchema,
     TParams extends ZodObject<any> = ZodObject<any>,
     TQuery extends ZodObject<any> = ZodObject<any>,
-    THeaders extends ZodObject<any> = ZodObject<any>
+    THeaders extends ZodObject<any> = ZodObject<any>,
+    TCookies extends ZodObject<any> = ZodObject<any>,
+    TResponses extends ResponsesMap = ResponsesMap,
+    TMiddleware extends readonly EndpointMiddleware<any, any>[] = readonly EndpointMiddleware<any, any>[]
   >(
-    method: HttpMethod,
-    path: string,
-    options: EndpointOptions<TBody, TParams, TQuery, THeaders> = {} as EndpointOptions<TBody, TParams, TQuery, THeaders>
+    method: RouteMethod,
+    path: string | RegExp,
+    options: EndpointOptions<TBody, TParams, TQuery, THeaders, TCookies, TResponses, TMiddleware> =
+      {} as EndpointOptions<TBody, TParams, TQuery, THeaders, TCookies, TResponses, TMiddleware>
   ): RequestHandler {
     const {
       operationId,
@@ -52,15 +144,86 @@ export function createRegistry(options: ApiOptions = {}): Registry {
       description = '',
       deprecated = false,
       tags = [],
+      security,
       body,
       params,
       query,
       headers,
-      responses: routeResponses
+      cookies,
+      responses: routeResponses,
+      validateResponses: routeValidateResponses = validateResponses,
+      serializeResponses: routeSerializeResponses = serializeResponses,
+      formatValidationError: routeFormatValidationError,
+      onValidationError: routeOnValidationError,
+      asyncValidation: routeAsyncValidation = asyncValidation,
+      strict: routeStrict = strict,
+      middleware = []
     } = options;
 
-    // In the path, replace :param with {param} for OpenAPI compatibility
-    const openApiPath = path.replace(/[:*](\w+)/g, '{$1}');
+    if (operationId) {
+      implementedOperations.add(operationId);
+    }
+
+    // Route-level error handling replaces the registry-level pair as a whole
+    const hasRouteErrorHandling = Boolean(routeFormatValidationError || routeOnValidationError);
+    const validationErrorFormatter = hasRouteErrorHandling ? routeFormatValidationError : formatValidationError;
+    const validationErrorHandler = hasRouteErrorHandling ? routeOnValidationError : onValidationError;
+
+    // JSON is assumed unless the body is given as a map of content types
+    const hasBodyContentMap = body !== undefined && !(body instanceof ZodType);
+    let bodyContent = body === undefined ? undefined : toBodyContent(body);
+
+    // In strict mode, object bodies reject undeclared keys (documented as additionalProperties: false)
+    const strictParts = resolveStrictOptions(routeStrict);
+    if (bodyContent && strictParts.body) {
+      bodyContent = Object.fromEntries(
+        Object.entries(bodyContent).map(([contentType, schema]) =>
+          [contentType, schema instanceof ZodObject ? schema.strict() : schema])
+      );
+    }
+
+    // The body is required unless every schema accepts its absence
+    const bodyRequired = bodyContent !== undefined && Object.values(bodyContent).some((schema) => !schema.isOptional());
+
+    // Translate the Express path into the OpenAPI paths it matches (one per optional group combination)
+    let openApiPaths: OpenApiPathVariant[] = [];
+    try {
+      if (typeof path !== 'string') {
+        throw new Error('RegExp paths cannot be represented');
+      }
+      openApiPaths = getOpenApiPaths(path);
+    } catch (error: any) {
+      onWarning(`Cannot document ${method.toUpperCase()} ${path} in OpenAPI: ${error.message}`);
+    }
+
+    // Every path param is documented, as a string unless the params schema declares it
+    const pathParamNames = Array.from(new Set(openApiPaths.flatMap((variant) => variant.params)));
+    function getDocumentedParams(variant: OpenApiPathVariant): ZodObject<any> | undefined {
+      const absent = pathParamNames.filter((name) => !variant.params.includes(name) && params && name in params.shape);
+      const declared = params && absent.length > 0 ?
+        params.omit(Object.fromEntries(absent.map((name) => [name, true as const]))) :
+        params;
+
+      const missing = variant.params.filter((name) => !declared || !(name in declared.shape));
+      if (missing.length === 0) {
+        return declared;
+      }
+
+      const derived = z.object(Object.fromEntries(missing.map((name) => [name, z.string()])));
+      return declared ? declared.merge(derived) : derived;
+    }
+
+    // Mount params can be set after the route is defined, so they are merged when requests arrive
+    let paramsCache: { mountParams: ZodObject<any> | undefined; schema: ZodObject<any> | undefined } | undefined;
+    function getParamsSchema(): ZodObject<any> | undefined {
+      if (!paramsCache || paramsCache.mountParams !== mountParams) {
+        paramsCache = {
+          mountParams,
+          schema: mountParams && params ? mountParams.merge(params) : mountParams || params
+        };
+      }
+      return paramsCache.schema;
+    }
 
     // Merge the route-specific query schema with the default query schema
     let mergedQuerySchema = defaultQuerySchema;
@@ -69,15 +232,36 @@ export function createRegistry(options: ApiOptions = {}): Registry {
       mergedQuerySchema = defaultQuerySchema.merge(query);
     }
 
-    // Merge the route-specific header schema with the default header schema
-    let mergedHeaderSchema = defaultHeaderSchema;
+    // Merge the headers read by declared middleware, then the route-specific header schema, with the default
+    let mergedHeaderSchema = middleware.reduce<ZodObject<any>>(
+      (schema, { headers: middlewareHeaders }) => (middlewareHeaders ? schema.merge(middlewareHeaders) : schema),
+      defaultHeaderSchema
+    );
     if (headers) {
       // Create a new schema that extends the default
-      mergedHeaderSchema = defaultHeaderSchema.merge(headers);
+      mergedHeaderSchema = mergedHeaderSchema.merge(headers);
+    }
+
+    // Merge the route-specific cookie schema with the default cookie schema
+    let mergedCookieSchema = defaultCookieSchema;
+    if (cookies) {
+      // Create a new schema that extends the default
+      mergedCookieSchema = defaultCookieSchema.merge(cookies);
     }
 
-    // Merge responses with defaults (route-specific responses take precedence)
-    const mergedResponses = { ...defaultResponses };
+    // Merge responses with defaults and those of declared middleware (route-specific responses take precedence)
+    const mergedResponses: ResponsesMap = middleware.reduce<ResponsesMap>(
+      (responses, { responses: middlewareResponses }) => ({ ...responses, ...middlewareResponses }),
+      { ...defaultResponses }
+    );
+
+    // Document the formatter's output as the validation error response
+    if (validationErrorFormatter && validationErrorFormatter.schema) {
+      mergedResponses[validationErrorFormatter.status || 400] = {
+        description: validationErrorFormatter.description || 'Validation failed',
+        content: { 'application/json': { schema: validationErrorFormatter.schema } }
+      };
+    }
 
     // Add or override with route-specific responses
     if (routeResponses) {
@@ -86,90 +270,349 @@ export function createRegistry(options: ApiOptions = {}): Registry {
       });
     }
 
-    // Register the route in OpenAPI registry
-    const route = openApiRegistry.registerPath({
-      method,
-      path: openApiPath,
-      operationId,
-      summary,
-      description,
-      deprecated,
-      tags,
-      request: {
-        body: body ? { content: { 'application/json': { schema: body } } } : undefined,
-        params: params ? params : undefined,
-        query: mergedQuerySchema,
-        headers: mergedHeaderSchema,
-      },
-      responses: mergedResponses
+    // all() is documented as one operation per method, each needing its own operationId
+    const documentedMethods = method === 'all' ? DOCUMENTED_METHODS : [method];
+
+    // Register the route in OpenAPI registry, once for every documented method and path
+    documentedMethods.forEach((documentedMethod) => {
+      const methodOperationId = operationId && method === 'all' ? `${operationId}_${documentedMethod}` : operationId;
+
+      openApiPaths.forEach((variant, index) => {
+        openApiRegistry.registerPath({
+          method: documentedMethod,
+          path: variant.path,
+          operationId: getVariantOperationId(methodOperationId, index),
+          summary,
+          description,
+          deprecated,
+          tags,
+          ...(security ? { security } : {}),
+          request: {
+            body: bodyContent ? { content: toOpenApiContent(bodyContent), required: bodyRequired } : undefined,
+            params: getDocumentedParams(variant),
+            query: mergedQuerySchema,
+            headers: mergedHeaderSchema,
+            cookies: mergedCookieSchema,
+          },
+          responses: mergedResponses
+        });
+      });
     });
+    revision++;
 
-    // Return the Express middleware
-    return (req: Request, res: Response, next: NextFunction): void => {
-      try {
-        // Create a validated request object
-        const validatedRequest = req as ValidatedRequest<any, any, any, any>;
-        
-        // Initialize the parsed object if it doesn't exist
-        if (!validatedRequest.parsed) {
-          validatedRequest.parsed = {
-            body: req.body,
-            params: req.params,
-            query: req.query,
-            headers: req.headers
-          };
+    /**
+     * Respond to a request that failed validation in one or more parts
+     */
+    function handleValidationErrors(
+      errors: Partial<Record<RequestPart, ZodError>>,
+      req: Request,
+      res: Response,
+      next: NextFunction
+    ): void {
+      const issues = collectValidationIssues(errors);
+      const context = {
+        issues,
+        parts: REQUEST_PARTS.filter((part) => errors[part]),
+        error: combineValidationErrors(errors),
+        req
+      };
+
+      // A custom handler decides everything
+      if (validationErrorHandler) {
+        validationErrorHandler(context, res, next);
+        return;
+      }
+
+      // A formatter decides the response body
+      if (validationErrorFormatter) {
+        res.status(validationErrorFormatter.status || 400).json(validationErrorFormatter.format(context));
+        return;
+      }
+
+      // Create a standardized error response
+      const err: any = new Error('Validation failed');
+      err.status = 400;
+      err.errors = issues;
+      next(err);
+    }
+
+    // Use parseAsync when configured, or once a schema turns out to contain async refinements
+    let useAsyncValidation = routeAsyncValidation;
+
+    // Use partial to ensure we only validate the headers we care about
+    const partialHeaderSchema = strictParts.headers ?
+      createStrictHeaderSchema(mergedHeaderSchema.partial()) :
+      mergedHeaderSchema.partial();
+
+    // In strict mode, undeclared query keys are rejected
+    const runtimeQuerySchema = strictParts.query ? mergedQuerySchema.strict() : mergedQuerySchema;
+
+    /**
+     * Forward an error thrown from inside a schema (e.g. a transform), which is not a Zod issue
+     */
+    function forwardSchemaError(error: any, next: NextFunction): void {
+      const err: any = new Error('Validation failed');
+      err.status = 400;
+      err.errors = error.message;
+      next(err);
+    }
+
+    /**
+     * Store the parsed value of every request part, then continue or report the failures
+     */
+    function applyValidationResults(
+      checks: RequestPartCheck[],
+      results: ZodSafeParseResult<any>[],
+      req: Request,
+      res: Response,
+      next: NextFunction
+    ): void {
+      const validatedRequest = req as ValidatedRequest<any, any, any, any, any>;
+      const errors: Partial<Record<RequestPart, ZodError>> = {};
+
+      checks.forEach(({ part }, index) => {
+        const result = results[index];
+        if (!result.success) {
+          errors[part] = result.error;
+          return;
         }
 
-        // Validate body if schema provided
-        if (body) {
-          validatedRequest.parsed.body = body.parse(req.body);
-          req.body = validatedRequest.parsed.body; // Also update the original for backward compatibility
+        validatedRequest.parsed[part] = result.data;
+
+        // Also update the original properties for backward compatibility
+        if (part === 'body') {
+          req.body = result.data;
+        } else if (part === 'params') {
+          extend(req.params, result.data);
+        } else if (part === 'query') {
+          extend(true, req.query, result.data);
+        } else if (part === 'headers') {
+          req.headers = { ...req.headers, ...result.data };
         }
+      });
+
+      if (Object.keys(errors).length > 0) {
+        handleValidationErrors(errors, req, res, next);
+        return;
+      }
+
+      // Check or serialize outgoing payloads against the declared responses if enabled
+      if (routeValidateResponses || routeSerializeResponses) {
+        const requestMethod = method === 'all' ? req.method.toLowerCase() as HttpMethod : method;
+        interceptResponses(req, res, next, { method: requestMethod, path: String(path) }, mergedResponses, {
+          validate: routeValidateResponses,
+          serialize: routeSerializeResponses
+        });
+      }
 
-        // Validate URL params if schema provided
-        if (params) {
-          validatedRequest.parsed.params = params.parse(req.params);
-          extend(req.params, validatedRequest.parsed.params); // Update original params for compatibility
+      // Proceed to next middleware
+      next();
+    }
+
+    /**
+     * Validate every part of the request and populate req.parsed
+     */
+    function validateRequest(req: Request, res: Response, next: NextFunction): void {
+      // Create a validated request object
+      const validatedRequest = req as ValidatedRequest<any, any, any, any, any>;
+
+      // Initialize the parsed object if it doesn't exist
+      if (!validatedRequest.parsed) {
+        validatedRequest.parsed = {
+          body: req.body,
+          params: req.params,
+          query: req.query,
+          headers: req.headers,
+          cookies: {}
+        };
+      }
+
+      // Validate every part before reporting so clients see all issues at once
+      const checks: RequestPartCheck[] = [];
+
+      // Validate body if schema provided
+      if (bodyContent) {
+        const contentType = hasBodyContentMap ? selectBodyContentType(req, bodyContent) : 'application/json';
+
+        // Reject content types the route does not declare
+        if (!contentType) {
+          const err: any = new Error('Unsupported Media Type');
+          err.status = 415;
+          err.errors = [`Expected Content-Type to be one of: ${Object.keys(bodyContent).join(', ')}`];
+          next(err);
+          return;
+        }
+
+        checks.push({ part: 'body', schema: bodyContent[contentType], value: req.body });
+      }
+
+      // Validate URL params, including those of the mount path, if a schema is provided
+      const paramsSchema = getParamsSchema();
+      if (paramsSchema) {
+        checks.push({ part: 'params', schema: paramsSchema, value: req.params });
+      }
+
+      // Validate query params, headers and cookies with merged schemas
+      checks.push({ part: 'query', schema: runtimeQuerySchema, value: req.query });
+      checks.push({ part: 'headers', schema: partialHeaderSchema, value: req.headers });
+      checks.push({ part: 'cookies', schema: mergedCookieSchema, value: parseCookieHeader(req.headers.cookie) });
+
+      if (!useAsyncValidation) {
+        let results: ZodSafeParseResult<any>[] | undefined;
+        try {
+          results = checks.map(({ schema, value }) => schema.safeParse(value));
+        } catch (error: any) {
+          if (!(error instanceof z.core.$ZodAsyncError)) {
+            forwardSchemaError(error, next);
+            return;
+          }
+
+          // A schema has async refinements or transforms, so parse asynchronously from now on
+          useAsyncValidation = true;
+        }
+
+        if (results) {
+          applyValidationResults(checks, results, req, res, next);
+          return;
         }
+      }
+
+      // Errors thrown while applying the results (e.g. by onValidationError) are forwarded as they are,
+      // as on the synchronous path
+      Promise.all(checks.map(({ schema, value }) => schema.safeParseAsync(value)))
+        .then(
+          (results) => applyValidationResults(checks, results, req, res, next),
+          (error) => forwardSchemaError(error, next)
+        )
+        .catch(next);
+    }
+
+    // Limits for the built-in multipart parser, derived from the declared file fields
+    const multipartSchema = hasBodyContentMap && bodyContent ? bodyContent['multipart/form-data'] : undefined;
+    const multipartLimits = multipartSchema ? deriveMultipartLimits(multipartSchema) : undefined;
+
+    /**
+     * Respond with generated data for the documented operation the request matched
+     */
+    function serveMock(req: Request, res: Response, next: NextFunction): void {
+      const documentedMethod = method === 'all' ? req.method.toLowerCase() as HttpMethod : method;
 
-        // Validate query params with merged schema
-        validatedRequest.parsed.query = mergedQuerySchema.parse(req.query);
-        extend(true, req.query, validatedRequest.parsed.query); // Update original query for compatibility
-
-        // Validate headers with merged schema
-        // Use partial to ensure we only validate the headers we care about
-        const headersSchema = mergedHeaderSchema.partial();
-        validatedRequest.parsed.headers = headersSchema.parse(req.headers);
-        // Merge validated headers back with original headers
-        req.headers = { ...req.headers, ...validatedRequest.parsed.headers };
-
-        // Proceed to next middleware
-        next();
-      } catch (error: any) {
-        // Create a standardized error response
-        const err: any = new Error('Validation failed');
-        err.status = 400;
-        err.errors = error.errors || error.message;
+      // Of the optional group variants, the one with the most params, all of which were matched
+      const variant = openApiPaths
+        .filter((candidate) => candidate.params.every((name) => req.params[name] !== undefined))
+        .sort((a, b) => b.params.length - a.params.length)[0];
+      if (!variant) {
+        const err: any = new Error(`Cannot mock ${method.toUpperCase()} ${String(path)}: it is not documented`);
+        err.status = 501;
         next(err);
+        return;
       }
+
+      sendMock(req, res, next, registry.generateOpenAPIDocument(), {
+        method: documentedMethod,
+        path: variant.path,
+        responses: mergedResponses
+      }, mockOptions);
+    }
+
+    /**
+     * Validate the request, parsing multipart bodies first
+     */
+    function handleRequest(req: Request, res: Response, next: NextFunction): void {
+      // Parse multipart bodies here unless another parser (e.g. multer) already consumed the stream
+      if (multipartLimits && req.is('multipart/form-data') && !req.readableEnded && !(req as any)._body) {
+        parseMultipart(req, multipartLimits)
+          .then((parsedBody) => {
+            req.body = parsedBody;
+            validateRequest(req, res, next);
+          })
+          .catch(next);
+        return;
+      }
+
+      validateRequest(req, res, next);
+    }
+
+    // Return the Express middleware, checking for mock mode per request since
+    // routers get it from the app they are mounted on after their routes are defined
+    return (req: Request, res: Response, next: NextFunction): void => {
+      if (!mockOptions) {
+        handleRequest(req, res, next);
+        return;
+      }
+      handleRequest(req, res, (err?: any) => (err ? next(err) : serveMock(req, res, next)));
     };
   }
 
   /**
    * Generate the full OpenAPI document
+   *
+   * Every call returns a copy of the cached document, so callers may modify it freely.
    */
   function generateOpenAPIDocument(config: Partial<OpenAPIConfig> = {}): any {
-    const generator = new OpenApiGeneratorV3(openApiRegistry.definitions);
-    return generator.generateDocument({
-      ...openApiConfig,
-      ...config
-    });
+    const currentRevision = registry.getRevision();
+    const configKey = JSON.stringify(config);
+    if (documentCache && documentCache.revision === currentRevision && documentCache.config === configKey) {
+      return structuredClone(documentCache.document);
+    }
+
+    const documentConfig = { ...openApiConfig, ...config };
+    const definitions = registry.getDefinitions();
+
+    // The document version selects the generator (3.1 uses JSON Schema 2020-12 semantics)
+    const generator = documentConfig.openapi.startsWith('3.1') ?
+      new OpenApiGeneratorV31(definitions) :
+      new OpenApiGeneratorV3(definitions);
+
+    const document = generator.generateDocument(documentConfig);
+    documentCache = { revision: currentRevision, config: configKey, document };
+    return structuredClone(document);
+  }
+
+  /**
+   * Get the definitions the document is generated from
+   */
+  function getDefinitions(): OpenAPIRegistry['definitions'] {
+    return openApiRegistry.definitions;
+  }
+
+  /**
+   * Get the revision of the registry, which changes whenever the document would
+   */
+  function getRevision(): number {
+    // Definitions registered through getRawRegistry() bypass the helpers, so count them too
+    // (both only grow, so the sum changes on every change)
+    return revision + openApiRegistry.definitions.length;
+  }
+
+  /**
+   * Create a router serving the OpenAPI document as JSON, YAML and an HTML viewer
+   */
+  function docsRouter(docsOptions: DocsRouterOptions = {}): Router {
+    return createDocsRouter(registry, docsOptions);
+  }
+
+  /**
+   * Create a router serving every documented route with generated data
+   */
+  function mock(mockRouterOptions: MockOptions = {}): Router {
+    return createMockRouter(registry, mockRouterOptions);
+  }
+
+  /**
+   * Set the OpenAPI version of the generated document (e.g. '3.0.0' or '3.1.0')
+   */
+  function setOpenApiVersion(version: string): Registry {
+    revision++;
+    openApiConfig.openapi = version;
+    return registry;
   }
 
   /**
    * Set API info (title, version, description)
    */
   function setInfo(info: { title: string; version: string; description?: string }): Registry {
+    revision++;
     openApiConfig.info = { ...openApiConfig.info, ...info };
     return registry;
   }
@@ -178,6 +621,7 @@ export function createRegistry(options: ApiOptions = {}): Registry {
    * Add a server to the OpenAPI document
    */
   function addServer(server: { url: string; description?: string }): Registry {
+    revision++;
     if (!openApiConfig.servers) {
       openApiConfig.servers = [];
     }
@@ -189,6 +633,7 @@ export function createRegistry(options: ApiOptions = {}): Registry {
    * Set the default query schema for all endpoints
    */
   function setDefaultQuerySchema(schema: ZodObject<any>): Registry {
+    revision++;
     defaultQuerySchema = schema;
     return registry;
   }
@@ -197,14 +642,56 @@ export function createRegistry(options: ApiOptions = {}): Registry {
    * Set the default header schema for all endpoints
    */
   function setDefaultHeaderSchema(schema: ZodObject<any>): Registry {
+    revision++;
     defaultHeaderSchema = schema;
     return registry;
   }
 
+  /**
+   * Set the default cookie schema for all endpoints
+   */
+  function setDefaultCookieSchema(schema: ZodObject<any>): Registry {
+    revision++;
+    defaultCookieSchema = schema;
+    return registry;
+  }
+
+  /**
+   * Set the schema of the params in the path a router is mounted at
+   */
+  function setMountParams(schema: ZodObject<any>): Registry {
+    revision++;
+    mountParams = schema;
+    return registry;
+  }
+
+  /**
+   * Get the schema of the params in the path a router is mounted at
+   */
+  function getMountParams(): ZodObject<any> | undefined {
+    return mountParams;
+  }
+
+  /**
+   * Serve the routes with generated data instead of their handlers
+   */
+  function setMockOptions(options: MockOptions): Registry {
+    mockOptions = options;
+    return registry;
+  }
+
+  /**
+   * Get the mock mode options, undefined unless the routes are mocked
+   */
+  function getMockOptions(): MockOptions | undefined {
+    return mockOptions;
+  }
+
   /**
    * Set the default responses for all endpoints
    */
   function setDefaultResponses(responses: Record<string | number, any>): Registry {
+    revision++;
     defaultResponses = responses;
     return registry;
   }
@@ -213,10 +700,61 @@ export function createRegistry(options: ApiOptions = {}): Registry {
    * Register a security scheme
    */
   function registerSecurityScheme(name: string, scheme: any): Registry {
+    revision++;
     openApiRegistry.registerComponent('securitySchemes', name, scheme);
     return registry;
   }
 
+  /**
+   * Register a webhook, documented under `webhooks` in OpenAPI 3.1 documents
+   */
+  function registerWebhook(name: string, webhook: WebhookOptions = {}): Registry {
+    const {
+      method = 'post',
+      operationId,
+      summary = '',
+      description = '',
+      deprecated = false,
+      tags = [],
+      body,
+      headers,
+      responses = {}
+    } = webhook;
+
+    revision++;
+    openApiRegistry.registerWebhook({
+      method,
+      path: name,
+      operationId,
+      summary,
+      description,
+      deprecated,
+      tags,
+      request: {
+        body: body ? { content: toOpenApiContent(toBodyContent(body)) } : undefined,
+        headers
+      },
+      responses
+    });
+    return registry;
+  }
+
+  /**
+   * Get an operation of the spec-first document
+   */
+  function getOperation(operationId: string): SpecOperation | undefined {
+    return specOperations.get(operationId);
+  }
+
+  /**
+   * List the operations of the spec-first document that have no route yet
+   */
+  function getUnimplementedOperations(): Array<Pick<SpecOperation, 'operationId' | 'method' | 'path'>> {
+    return Array.from(specOperations.values())
+      .filter(({ operationId }) => !implementedOperations.has(operationId))
+      .map(({ operationId, method, path }) => ({ operationId, method, path }));
+  }
+
   /**
    * Get the raw OpenAPI registry
    */
@@ -228,12 +766,25 @@ export function createRegistry(options: ApiOptions = {}): Registry {
   const registry: Registry = {
     createEndpoint,
     generateOpenAPIDocument,
+    getDefinitions,
+    getRevision,
+    docsRouter,
+    mock,
+    setOpenApiVersion,
     setInfo,
     addServer,
     setDefaultQuerySchema,
     setDefaultHeaderSchema,
+    setDefaultCookieSchema,
     setDefaultResponses,
+    setMountParams,
+    getMountParams,
+    setMockOptions,
+    getMockOptions,
     registerSecurityScheme,
+    registerWebhook,
+    getOperation,
+    getUnimplementedOperations,
     getRawRegistry
   };
 
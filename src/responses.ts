@@ -0,0 +1,174 @@
+import { Request, Response, NextFunction } from 'express';
+import { ZodError, ZodType } from 'zod';
+import { HttpMethod, ResponseObject, ResponseValidationMode } from './types';
+import { isJsonContentType } from './openapi';
+
+/**
+ * Find the declared schema for a status code and content type
+ *
+ * Looks up the exact status code first, then its range (e.g. 2XX), then `default`.
+ * Within a response, the exact media type wins over `type/*` and `*\/*`.
+ *
+ * @param responses The merged responses map of an endpoint
+ * @param statusCode The status code being sent
+ * @param contentType The Content-Type of the payload (parameters are ignored)
+ * @returns The matching schema, or undefined when nothing is declared
+ */
+export function findResponseSchema(
+  responses: Record<string | number, ResponseObject>,
+  statusCode: number,
+  contentType: string
+): ZodType | undefined {
+  const status = String(statusCode);
+  const response = responses[status] || responses[`${status[0]}XX`] || responses.default;
+
+  if (!response || !response.content) {
+    return undefined;
+  }
+
+  const mediaType = contentType.split(';')[0].trim().toLowerCase();
+  const entry = response.content[mediaType] ||
+                response.content[`${mediaType.split('/')[0]}/*`] ||
+                response.content['*/*'];
+
+  return entry ? entry.schema : undefined;
+}
+
+/**
+ * Wraps res.json and res.send so payloads are checked against, or serialized through, the declared response schemas
+ *
+ * When serializing, JSON payloads are parsed with their schema before sending, which applies
+ * transforms and strips undeclared keys. A payload that cannot be serialized is never sent.
+ *
+ * @param req The current request
+ * @param res The current response
+ * @param next The next function of the endpoint middleware
+ * @param route The method and path of the endpoint, for reporting
+ * @param responses The merged responses map of the endpoint
+ * @param options How mismatches are surfaced, and whether JSON payloads are serialized
+ */
+export function interceptResponses(
+  req: Request,
+  res: Response,
+  next: NextFunction,
+  route: { method: HttpMethod; path: string },
+  responses: Record<string | number, ResponseObject>,
+  options: { validate: ResponseValidationMode; serialize: boolean }
+): void {
+  const originalJson = res.json;
+  const originalSend = res.send;
+  const mode = options.validate;
+
+  // res.json() stringifies and then calls res.send(), which must not validate a second time
+  let sendingJson = false;
+
+  // Forward an error instead of sending the payload
+  function fail(message: string, error: ZodError): void {
+    // Restore the originals so the error handler can respond freely
+    res.json = originalJson;
+    res.send = originalSend;
+
+    const err: any = new Error(message);
+    err.status = 500;
+    err.errors = error.issues;
+    next(err);
+  }
+
+  // Returns false when the payload must not be sent
+  function check(schema: ZodType, payload: unknown, contentType: string): boolean {
+    if (!mode) {
+      return true;
+    }
+
+    const result = schema.safeParse(payload);
+    if (result.success) {
+      return true;
+    }
+
+    if (typeof mode === 'function') {
+      mode({
+        method: route.method,
+        path: route.path,
+        statusCode: res.statusCode,
+        contentType,
+        body: payload,
+        error: result.error,
+        req
+      });
+      return true;
+    }
+
+    if (mode === 'log') {
+      console.warn(
+        `Response validation failed for ${route.method.toUpperCase()} ${route.path} (${res.statusCode} ${contentType}):`,
+        result.error.issues
+      );
+      return true;
+    }
+
+    fail('Response validation failed', result.error);
+    return false;
+  }
+
+  res.json = function(body?: any): Response {
+    const schema = findResponseSchema(responses, res.statusCode, 'application/json');
+    let payload = body;
+
+    if (schema && options.serialize) {
+      const result = schema.safeParse(body);
+      if (!result.success) {
+        fail('Response serialization failed', result.error);
+        return res;
+      }
+      payload = result.data;
+    } else if (schema && !check(schema, body, 'application/json')) {
+      return res;
+    }
+
+    sendingJson = true;
+    try {
+      return originalJson.call(res, payload);
+    } finally {
+      sendingJson = false;
+    }
+  };
+
+  res.send = function(body?: any): Response {
+    // Objects are routed through res.json() by Express, buffers are opaque
+    if (sendingJson || typeof body !== 'string') {
+      return originalSend.call(res, body);
+    }
+
+    const contentType = res.get('Content-Type') || 'text/html';
+    const schema = findResponseSchema(responses, res.statusCode, contentType);
+    if (!schema) {
+      return originalSend.call(res, body);
+    }
+
+    const json = isJsonContentType(contentType);
+    let payload: unknown = body;
+    if (json) {
+      try {
+        payload = JSON.parse(body);
+      } catch {
+        // Leave the raw string so the schema reports the mismatch
+      }
+    }
+
+    // Pre-stringified JSON is serialized like res.json() payloads, so undeclared keys never leak
+    if (json && options.serialize) {
+      const result = schema.safeParse(payload);
+      if (!result.success) {
+        fail('Response serialization failed', result.error);
+        return res;
+      }
+      return originalSend.call(res, JSON.stringify(result.data));
+    }
+
+    if (!check(schema, payload, contentType)) {
+      return res;
+    }
+
+    return originalSend.call(res, body);
+  };
+}
@@ -0,0 +1,171 @@
+import type { z, ZodType, ZodObject } from 'zod';
+import type { ContractDefinition } from './contract';
+
+// Routes, their schemas and the client calling them are typed here rather than in types.ts
+// (which re-exports them), so the plus-express/client entry point does not depend on Express
+
+// HTTP method types
+export type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete' | 'options' | 'head';
+
+// Methods accepting endpoint options; 'all' is documented once for every HttpMethod
+export type RouteMethod = HttpMethod | 'all';
+
+// Response definition for a specific status code
+export interface ResponseObject {
+  description: string;
+  content?: Record<string, { schema: ZodType }>;
+}
+
+// Responses keyed by status code (or a range such as '2XX', or 'default')
+export type ResponsesMap = Record<string | number, ResponseObject>;
+
+// Request body schemas keyed by content type (e.g. 'application/x-www-form-urlencoded')
+export type BodyContentMap = Record<string, ZodType>;
+
+// A body schema is either a JSON schema or a per-content-type map
+export type BodySchema = ZodType | BodyContentMap;
+
+// Input type of every schema in a response's content map
+export type ResponseContentType<TResponse> =
+  TResponse extends { content: infer TContent } ?
+    { [K in keyof TContent]: TContent[K] extends { schema: infer TSchema extends ZodType } ? z.input<TSchema> : unknown }[keyof TContent] :
+    never;
+
+// A route captured on the type of an app or router (type-only, read by createClient)
+export interface RouteSignature<
+  TMethod extends RouteMethod = RouteMethod,
+  TPath extends string | RegExp = string | RegExp,
+  TOperationId extends string | undefined = string | undefined,
+  TBody extends BodySchema | undefined = BodySchema | undefined,
+  TParams extends ZodObject<any> | undefined = ZodObject<any> | undefined,
+  TQuery extends ZodObject<any> | undefined = ZodObject<any> | undefined,
+  THeaders extends ZodObject<any> | undefined = ZodObject<any> | undefined,
+  TResponses extends ResponsesMap | undefined = ResponsesMap | undefined
+> {
+  method: TMethod;
+  path: TPath;
+  operationId: TOperationId;
+  body: TBody;
+  params: TParams;
+  query: TQuery;
+  headers: THeaders;
+  responses: TResponses;
+}
+
+// Schemas declared by a contract endpoint, undefined when left out
+export type ContractBody<TEndpoint> = TEndpoint extends { body: infer TBody extends BodySchema } ? TBody : undefined;
+export type ContractSchema<TEndpoint, TPart extends 'params' | 'query' | 'headers' | 'cookies'> =
+  TEndpoint extends { [K in TPart]: infer TSchema extends ZodObject<any> } ? TSchema : undefined;
+export type ContractResponses<TEndpoint> =
+  TEndpoint extends { responses: infer TResponses extends ResponsesMap } ? TResponses : undefined;
+
+// Routes registered for the endpoints of a contract
+export type ContractRoutes<TContract extends ContractDefinition> = {
+  [K in keyof TContract & string]: RouteSignature<
+    TContract[K]['method'],
+    TContract[K]['path'],
+    TContract[K] extends { operationId: infer TOperationId extends string } ? TOperationId : K,
+    ContractBody<TContract[K]>,
+    ContractSchema<TContract[K], 'params'>,
+    ContractSchema<TContract[K], 'query'>,
+    ContractSchema<TContract[K], 'headers'>,
+    ContractResponses<TContract[K]>
+  >
+}[keyof TContract & string];
+
+// Routes of an app, router or contract
+export type ApiRoutes<TApi> =
+  TApi extends ContractDefinition ? ContractRoutes<TApi> :
+  TApi extends { readonly __routes?: infer TRoutes } ? Exclude<TRoutes, undefined> :
+  never;
+
+// Cut a string at the first of the delimiters
+type TruncateAt<T extends string, TDelimiters extends string[]> =
+  TDelimiters extends [infer TDelimiter extends string, ...infer TRest extends string[]]
+    ? TruncateAt<T extends `${infer THead}${TDelimiter}${string}` ? THead : T, TRest>
+    : T;
+
+// Name of the param at the start of the text following : or *
+type PathParamName<T extends string> =
+  T extends `"${infer TName}"${string}` ? TName : TruncateAt<T, ['/', '.', '-', '{', '}', ':', '*', '(', '?', '\\']>;
+
+// Names of the params marked with : or * in an Express path
+type PathParamsAfter<TPath extends string, TMarker extends string> =
+  TPath extends `${string}${TMarker}${infer TRest}` ? PathParamName<TRest> | PathParamsAfter<TRest, TMarker> : never;
+type PathParamsOf<TPath extends string> = PathParamsAfter<TPath, ':'> | PathParamsAfter<TPath, '*'>;
+
+// Text inside the optional groups of an Express path
+type OptionalGroups<TPath extends string> =
+  TPath extends `${string}{${infer TGroup}}${infer TRest}` ? TGroup | OptionalGroups<TRest> : never;
+
+// Path params of an Express path: those in optional groups may be omitted
+export type PathParamValues<TPath extends string> =
+  { [K in Exclude<PathParamsOf<TPath>, PathParamsOf<OptionalGroups<TPath>>>]: string | number | Array<string | number> } &
+  { [K in PathParamsOf<OptionalGroups<TPath>>]?: string | number | Array<string | number> };
+
+// A request part of a client call, omitted without keys and optional without required keys
+type ClientPart<TKey extends string, TValue> =
+  [keyof TValue] extends [never] ? {} :
+  {} extends TValue ? { [K in TKey]?: TValue } :
+  { [K in TKey]: TValue };
+
+// Input of a client call for a route
+export type ClientInput<TRoute extends RouteSignature> =
+  ClientPart<'params',
+    (TRoute['params'] extends ZodObject<any> ? z.input<TRoute['params']> : {}) &
+    Omit<TRoute['path'] extends string ? PathParamValues<TRoute['path']> : {},
+      TRoute['params'] extends ZodObject<any> ? keyof z.input<TRoute['params']> : never>
+  > &
+  ClientPart<'query', TRoute['query'] extends ZodObject<any> ? z.input<TRoute['query']> : {}> &
+  (TRoute['body'] extends BodySchema
+    ? undefined extends InferBodyInput<TRoute['body']> ? { body?: InferBodyInput<TRoute['body']> } : { body: InferBodyInput<TRoute['body']> }
+    : {}) &
+  {
+    // Headers are validated as partial, so declared ones are never required
+    headers?: (TRoute['headers'] extends ZodObject<any> ? Partial<z.input<TRoute['headers']>> : {}) &
+      Record<string, string | number | boolean | undefined>;
+    init?: RequestInit; // Passed to fetch, e.g. for an AbortSignal or credentials
+  };
+
+// Input type of a body schema, or of every schema in a content type map
+type InferBodyInput<T extends BodySchema> =
+  T extends ZodType ? z.input<T> :
+  T extends BodyContentMap ? z.input<T[keyof T]> :
+  unknown;
+
+// Status of a responses map key: the code itself, or any code for ranges and `default`
+type ClientStatus<TKey> = TKey extends number ? TKey : TKey extends `${infer TCode extends number}` ? TCode : number;
+
+// Response of a client call, discriminated by status over the declared responses
+export type ClientResponse<TResponses> = TResponses extends ResponsesMap
+  ? {
+      [K in keyof TResponses]: {
+        status: ClientStatus<K>;
+        ok: boolean;
+        headers: Headers;
+        data: [ResponseContentType<TResponses[K]>] extends [never] ? undefined : ResponseContentType<TResponses[K]>;
+      }
+    }[keyof TResponses]
+  : { status: number; ok: boolean; headers: Headers; data: unknown };
+
+// Client call for a route (the input may be left out when nothing in it is required)
+export type ClientMethod<TRoute extends RouteSignature> = {} extends ClientInput<TRoute>
+  ? (input?: ClientInput<TRoute>) => Promise<ClientResponse<TRoute['responses']>>
+  : (input: ClientInput<TRoute>) => Promise<ClientResponse<TRoute['responses']>>;
+
+// Routes a client can call: those with a string path and a single method
+type ClientRoutes<TApi> = Extract<ApiRoutes<TApi>, RouteSignature<HttpMethod, string>>;
+
+// Typed client for the routes of an app or router, keyed by 'METHOD /path' and by operationId
+export type Client<TApi> = {
+  [TRoute in ClientRoutes<TApi> as `${Uppercase<TRoute['method']>} ${TRoute['path']}`]: ClientMethod<TRoute>;
+} & {
+  [TRoute in ClientRoutes<TApi> as TRoute['operationId'] extends string ? TRoute['operationId'] : never]: ClientMethod<TRoute>;
+};
+
+// Options for createClient
+export interface ClientOptions {
+  document?: any; // The generated OpenAPI document, needed to call routes by operationId
+  contract?: ContractDefinition; // Or the contract, to call its endpoints by name
+  headers?: Record<string, string>; // Sent with every request
+}
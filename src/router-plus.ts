@@ -1,11 +1,22 @@
 import { Router } from 'express';
+import { ZodObject } from 'zod';
 import { createRegistry } from './registry';
 import {
   ApiOptions,
   RouterPlus,
   RouterPlusReturn
 } from './types';
-import { enhanceHttpMethods, normalizeMountPath, MountInfo } from './utils';
+import {
+  enhanceHttpMethods,
+  enhanceRoutes,
+  enhanceContractImplement,
+  combineRegistries,
+  combineRevisions,
+  enableMountParams,
+  enableMockMode,
+  normalizeMountPath,
+  MountInfo
+} from './utils';
 
 /**
  * Enhances an Express Router with typed route handling and OpenAPI documentation
@@ -14,7 +25,10 @@ import { enhanceHttpMethods, normalizeMountPath, MountInfo } from './utils';
  * @param opts API configuration options (optional)
  * @returns Enhanced Router and registry
  */
-export const routerPlus = (router?: Router, opts: ApiOptions = {}): RouterPlusReturn => {
+export const routerPlus = <TMountParams extends ZodObject<any> | undefined = undefined>(
+  router?: Router,
+  opts: ApiOptions<TMountParams> = {}
+): RouterPlusReturn<TMountParams> => {
   // Create a new router if one wasn't provided
   const routerInstance = router || Router();
 
@@ -25,10 +39,12 @@ export const routerPlus = (router?: Router, opts: ApiOptions = {}): RouterPlusRe
   const nestedMountRegistry: MountInfo[] = [];
 
   // Define the HTTP methods to enhance
-  const methods = ['get', 'post', 'put', 'delete', 'patch', 'options', 'head'] as const;
+  const methods = ['get', 'post', 'put', 'delete', 'patch', 'options', 'head', 'all'] as const;
 
   // Enhance the router with our augmented methods
   enhanceHttpMethods(routerInstance, methods, registry.createEndpoint as any);
+  enhanceRoutes(routerInstance, methods, registry.createEndpoint as any);
+  enhanceContractImplement(routerInstance);
 
   // Mark the router as a RouterPlus and attach registry
   Object.defineProperties(routerInstance, {
@@ -54,6 +70,14 @@ export const routerPlus = (router?: Router, opts: ApiOptions = {}): RouterPlusRe
   // Make the router compatible with Express's app.use() typings
   (routerInstance as any).__esModule = true;
 
+  // Nested routers are mocked along with this router
+  function enableRouterMockMode(router: any): void {
+    const mockOptions = registry.getMockOptions();
+    if (mockOptions) {
+      enableMockMode(router, mockOptions);
+    }
+  }
+
   // Keep track of nested routers
   const originalUse = routerInstance.use;
   routerInstance.use = function(...args: any[]): Router {
@@ -65,22 +89,43 @@ export const routerPlus = (router?: Router, opts: ApiOptions = {}): RouterPlusRe
       // If middleware is a RouterPlus, register its mount point
       if (middleware && middleware._isRouterPlus && middleware._registry) {
         const normalizedPath = normalizeMountPath(mountPath);
-        nestedMountRegistry.push({ path: normalizedPath, registry: middleware._registry });
+        nestedMountRegistry.push({ path: normalizedPath, registry: middleware._registry, router: middleware });
+
+        // Params of this router's own mount path are passed down as well
+        const mountParams = registry.getMountParams();
+        enableMountParams(middleware, normalizedPath, mountParams ? mountParams.shape : {}, opts.onWarning);
+        enableRouterMockMode(middleware);
       }
     }
 
     // Case 2: Just router (router.use(routerPlus))
     if (args.length === 1 && args[0] && args[0]._isRouterPlus && args[0]._registry) {
-      nestedMountRegistry.push({ path: '/', registry: args[0]._registry });
+      nestedMountRegistry.push({ path: '/', registry: args[0]._registry, router: args[0] });
+
+      const mountParams = registry.getMountParams();
+      enableMountParams(args[0], '/', mountParams ? mountParams.shape : {}, opts.onWarning);
+      enableRouterMockMode(args[0]);
     }
 
     // Call the original use method
     return originalUse.apply(this, args as any) as Router;
   };
 
+  // Include nested mounts in the revision so documents of every ancestor are refreshed
+  const originalGetRevision = registry.getRevision;
+  registry.getRevision = function(): number {
+    return combineRevisions(originalGetRevision(), nestedMountRegistry);
+  };
+
+  // Report nested routers' definitions with their mount paths, so ancestors see the whole tree
+  const originalGetDefinitions = registry.getDefinitions;
+  registry.getDefinitions = function() {
+    return combineRegistries(originalGetDefinitions(), nestedMountRegistry);
+  };
+
   // Return enhanced router and registry
   return {
-    router: routerInstance as unknown as RouterPlus,
+    router: routerInstance as unknown as RouterPlus<TMountParams, never>,
     registry
   };
 };
\ No newline at end of file
@@ -0,0 +1,162 @@
+import { z, ZodObject, ZodType } from 'zod';
+import { BodySchema, ResponseObject, ResponsesMap, SpecOperation } from './types';
+import { createJsonSchemaConverter } from './json-schema';
+import { DOCUMENT_METHODS, dereference, mergeParameters } from './openapi';
+
+// Characters path-to-regexp reads as syntax, escaped in literal path text
+const PATH_SYNTAX = /[()[\]+?!{}*:\\]/g;
+
+// Param names that can be written unquoted in an Express path
+const IDENTIFIER = /^[$_\p{ID_Start}][$\u200c\u200d\p{ID_Continue}]*$/u;
+
+// The parts of an OpenAPI document the registry is configured with
+export interface LoadedSpec {
+  document: any;
+  operations: SpecOperation[];
+}
+
+/**
+ * Translate an OpenAPI path into an Express path
+ *
+ * @param path The OpenAPI path, e.g. /users/{id}
+ * @returns The Express path, e.g. /users/:id
+ */
+export function toExpressPath(path: string): string {
+  return path.split(/(\{[^{}]+\})/).map((part) => {
+    const match = /^\{([^{}]+)\}$/.exec(part);
+    if (!match) {
+      return part.replace(PATH_SYNTAX, (char) => `\\${char}`);
+    }
+
+    const name = match[1];
+    return IDENTIFIER.test(name) ? `:${name}` : `:${JSON.stringify(name)}`;
+  }).join('');
+}
+
+/**
+ * Convert the parameters of one location into an object schema
+ */
+function toParamsSchema(
+  parameters: any[],
+  location: string,
+  convert: (schema: any) => ZodType
+): ZodObject<any> | undefined {
+  const matching = parameters.filter((parameter) => parameter.in === location);
+  if (matching.length === 0) {
+    return undefined;
+  }
+
+  return z.object(Object.fromEntries(matching.map((parameter) => {
+    // Header names are case-insensitive and Express lowercases them
+    const name = location === 'header' ? parameter.name.toLowerCase() : parameter.name;
+    let schema = convert(parameter.schema);
+    if (parameter.description) {
+      schema = schema.describe(parameter.description);
+    }
+    return [name, parameter.required || location === 'path' ? schema : schema.optional()];
+  })));
+}
+
+/**
+ * Convert a request body object into a body option
+ */
+function toBodySchema(requestBody: any, convert: (schema: any) => ZodType): BodySchema | undefined {
+  const content = Object.entries<any>((requestBody && requestBody.content) || {});
+  if (content.length === 0) {
+    return undefined;
+  }
+
+  const schemas = content.map(([contentType, mediaType]): [string, ZodType] => {
+    const schema = convert(mediaType.schema);
+    return [contentType, requestBody.required ? schema : schema.optional()];
+  });
+
+  // A lone JSON body is given as a schema, anything else as a map of content types
+  return schemas.length === 1 && schemas[0][0] === 'application/json' ?
+    schemas[0][1] :
+    Object.fromEntries(schemas);
+}
+
+/**
+ * Convert a responses object into a responses map
+ */
+function toResponses(document: any, responses: any, convert: (schema: any) => ZodType): ResponsesMap {
+  return Object.fromEntries(Object.entries<any>(responses || {}).map(([status, value]) => {
+    const response = dereference(document, value);
+    const result: ResponseObject = { description: response.description || '' };
+
+    if (response.content) {
+      result.content = Object.fromEntries(Object.entries<any>(response.content).map(([contentType, mediaType]) =>
+        [contentType, { schema: convert(mediaType.schema) }]
+      ));
+    }
+    return [status, result];
+  }));
+}
+
+/**
+ * Load an OpenAPI 3.x document and convert its operations into endpoint options
+ *
+ * Parameters, request bodies and responses (including $refs to components) are converted
+ * into Zod schemas. Params, query values, headers and cookies are coerced from text.
+ * Operations without an operationId cannot be implemented and are skipped with a warning.
+ *
+ * @param spec The document, parsed or as JSON text
+ * @param onWarning Told about the operations that are skipped
+ * @returns The document and its operations
+ * @throws Error when the document is not OpenAPI 3.x
+ */
+export function loadSpec(
+  spec: Record<string, any> | string,
+  onWarning: (message: string) => void = (message) => console.warn(message)
+): LoadedSpec {
+  const document = typeof spec === 'string' ? JSON.parse(spec) : spec;
+  if (!document || typeof document.openapi !== 'string' || !document.openapi.startsWith('3.')) {
+    throw new Error('Expected an OpenAPI 3.x document');
+  }
+
+  // Converters share converted components, so each is converted once per flavour
+  const convert = createJsonSchemaConverter({ document });
+  const convertText = createJsonSchemaConverter({ document, coerce: true });
+
+  const operations: SpecOperation[] = [];
+
+  Object.entries<any>(document.paths || {}).forEach(([path, pathItem]) => {
+    DOCUMENT_METHODS.forEach((method) => {
+      const operation = pathItem[method];
+      if (!operation) {
+        return;
+      }
+
+      if (!operation.operationId) {
+        onWarning(`Cannot implement ${method.toUpperCase()} ${path}: the operation has no operationId`);
+        return;
+      }
+
+      const parameters = mergeParameters(document, pathItem, operation);
+
+      operations.push({
+        operationId: operation.operationId,
+        method,
+        path,
+        expressPath: toExpressPath(path),
+        options: {
+          operationId: operation.operationId,
+          summary: operation.summary,
+          description: operation.description,
+          deprecated: operation.deprecated,
+          tags: operation.tags,
+          security: operation.security,
+          body: toBodySchema(dereference(document, operation.requestBody), convert),
+          params: toParamsSchema(parameters, 'path', convertText),
+          query: toParamsSchema(parameters, 'query', convertText),
+          headers: toParamsSchema(parameters, 'header', convertText),
+          cookies: toParamsSchema(parameters, 'cookie', convertText),
+          responses: toResponses(document, operation.responses, convert)
+        }
+      });
+    });
+  });
+
+  return { document, operations };
+}
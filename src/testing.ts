@@ -0,0 +1,260 @@
+import * as http from 'http';
+import { AddressInfo } from 'net';
+import { Application } from 'express';
+import { ZodError } from 'zod';
+import { findResponseSchema } from './responses';
+import { isJsonContentType, toQueryValue } from './openapi';
+import {
+  ApiCoverage,
+  HttpMethod,
+  OperationCoverage,
+  Registry,
+  ResponseObject,
+  TestApi,
+  TestApiRequest,
+  TestApiResponse
+} from './types';
+
+// A documented operation, with a pattern matching the request paths it serves
+interface DocumentedOperation {
+  method: HttpMethod;
+  path: string;
+  operationId?: string;
+  responses: Record<string, ResponseObject>;
+  pattern: RegExp;
+  wildcardPattern: RegExp; // Lets params span segments, for wildcards (which are documented as params)
+  paramCount: number;
+}
+
+/**
+ * Build the patterns matching the request paths of an OpenAPI path
+ */
+function toPathPatterns(path: string): { pattern: RegExp; wildcardPattern: RegExp; paramCount: number } {
+  const parts = path.split(/(\{[^{}]+\})/);
+  const literal = (part: string) => part.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+  const build = (param: string) => new RegExp(`^${parts.map((part, index) => (index % 2 ? param : literal(part))).join('')}/?$`);
+
+  return { pattern: build('[^/]+'), wildcardPattern: build('.+'), paramCount: (parts.length - 1) / 2 };
+}
+
+/**
+ * Find the key of the documented response used for a status: the code, its range, then default
+ */
+function findResponseKey(responses: Record<string, ResponseObject>, status: number): string | undefined {
+  const code = String(status);
+  return [code, `${code[0]}XX`, 'default'].find((key) => responses[key] !== undefined);
+}
+
+/**
+ * Format the issues of a schema mismatch, with the path of each in the body
+ */
+function formatIssues(error: ZodError): string {
+  return error.issues.map((issue) => {
+    const path = issue.path.reduce<string>((result, key) =>
+      typeof key === 'number' ? `${result}[${key}]` : `${result}.${String(key)}`, 'body');
+    return `  - ${path}: ${issue.message}`;
+  }).join('\n');
+}
+
+/**
+ * Create a contract-testing helper for an app and its registry
+ *
+ * Every request is served by the app in-process and checked against the generated document:
+ * the status must be documented for the operation, and the body must match the schema of its
+ * content type. Mismatches are thrown with the path of every issue in the body. The responses
+ * received are recorded, so the documented ones never exercised can be reported.
+ *
+ * @param app The Express app serving the documented routes
+ * @param registry The registry of the app
+ * @returns The helper
+ */
+export function testApi(app: Application, registry: Registry): TestApi {
+  // Response keys received, by method and OpenAPI path
+  const exercised = new Map<string, Set<string>>();
+
+  /**
+   * List the documented operations, once per method and path
+   */
+  function getOperations(): DocumentedOperation[] {
+    const operations = new Map<string, DocumentedOperation>();
+
+    registry.getDefinitions().forEach((definition: any) => {
+      if (definition.type !== 'route') {
+        return;
+      }
+
+      const { method, path, operationId, responses = {} } = definition.route;
+      const key = `${method} ${path}`;
+      if (!operations.has(key)) {
+        operations.set(key, { method, path, operationId, responses, ...toPathPatterns(path) });
+      }
+    });
+
+    return Array.from(operations.values());
+  }
+
+  /**
+   * Find the operation serving a request, preferring literal segments over params
+   */
+  function findOperation(method: HttpMethod, path: string): DocumentedOperation | undefined {
+    const candidates = getOperations().filter((operation) => operation.method === method);
+    const byParams = (a: DocumentedOperation, b: DocumentedOperation) => a.paramCount - b.paramCount;
+
+    return candidates.filter((operation) => operation.pattern.test(path)).sort(byParams)[0] ||
+      candidates.filter((operation) => operation.wildcardPattern.test(path)).sort(byParams)[0];
+  }
+
+  /**
+   * Serve the app on a free port for the duration of a call
+   */
+  async function withServer<T>(fn: (baseUrl: string) => Promise<T>): Promise<T> {
+    const server = http.createServer(app);
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(0, '127.0.0.1', () => resolve());
+    });
+
+    try {
+      return await fn(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+    } finally {
+      server.closeAllConnections();
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    }
+  }
+
+  async function request(method: HttpMethod, path: string, input: TestApiRequest = {}): Promise<TestApiResponse> {
+    const { query = {}, headers = {}, body } = input;
+    const route = `${method.toUpperCase()} ${path}`;
+
+    const operation = findOperation(method, path.split('?')[0]);
+    if (!operation) {
+      throw new Error(`${route} does not match a documented operation`);
+    }
+
+    const search = new URLSearchParams();
+    Object.entries(query).forEach(([name, value]) => {
+      if (value === undefined) {
+        return;
+      }
+      (Array.isArray(value) ? value : [value]).forEach((item) => search.append(name, toQueryValue(item)));
+    });
+    const queryString = search.toString();
+
+    const requestHeaders: Record<string, string> = Object.fromEntries(
+      Object.entries(headers).map(([name, value]) => [name.toLowerCase(), value])
+    );
+    let requestBody: any;
+    if (body !== undefined) {
+      const raw = typeof body === 'string' || body instanceof Uint8Array;
+      requestBody = raw ? body : JSON.stringify(body);
+      requestHeaders['content-type'] = requestHeaders['content-type'] || (raw ? 'text/plain' : 'application/json');
+    }
+
+    const url = `${path}${queryString ? `${path.includes('?') ? '&' : '?'}${queryString}` : ''}`;
+    const { status, responseHeaders, text } = await withServer(async (baseUrl) => {
+      const response = await fetch(`${baseUrl}${url}`, {
+        method: method.toUpperCase(),
+        headers: requestHeaders,
+        body: requestBody
+      });
+      return { status: response.status, responseHeaders: response.headers, text: await response.text() };
+    });
+
+    const contentType = responseHeaders.get('content-type') || '';
+    let responseBody: unknown = text || undefined;
+    if (text && isJsonContentType(contentType)) {
+      try {
+        responseBody = JSON.parse(text);
+      } catch {
+        // Left as text, so the schema reports the mismatch
+      }
+    }
+
+    const result: TestApiResponse = {
+      status,
+      headers: responseHeaders,
+      body: responseBody,
+      operation: { method: operation.method, path: operation.path, operationId: operation.operationId }
+    };
+    const description = `${route} (${operation.method.toUpperCase()} ${operation.path}) returned ${status}`;
+
+    const responseKey = findResponseKey(operation.responses, status);
+    if (!responseKey) {
+      const err: any = new Error(
+        `${description}, which is not documented (documented: ${Object.keys(operation.responses).join(', ') || 'none'})`
+      );
+      err.response = result;
+      throw err;
+    }
+
+    const operationKey = `${operation.method} ${operation.path}`;
+    exercised.set(operationKey, (exercised.get(operationKey) || new Set<string>()).add(responseKey));
+
+    // Only declared content is checked (responses such as sendStatus() bodies are left alone)
+    const content = operation.responses[responseKey].content;
+    if (method === 'head' || !content || Object.keys(content).length === 0) {
+      return result;
+    }
+
+    const mediaType = contentType.split(';')[0].trim() || 'no content';
+    const schema = findResponseSchema({ [String(status)]: operation.responses[responseKey] }, status, contentType);
+    if (!schema) {
+      const err: any = new Error(
+        `${description} with ${mediaType}, which is not documented for ${responseKey} (documented: ${Object.keys(content).join(', ')})`
+      );
+      err.response = result;
+      throw err;
+    }
+
+    const parsed = schema.safeParse(responseBody);
+    if (!parsed.success) {
+      const err: any = new Error(
+        `${description} with ${mediaType} not matching the documented schema:\n${formatIssues(parsed.error)}`
+      );
+      err.errors = parsed.error.issues;
+      err.response = result;
+      throw err;
+    }
+
+    return result;
+  }
+
+  function coverage(): ApiCoverage {
+    const operations: OperationCoverage[] = getOperations().map(({ method, path, operationId, responses }) => {
+      const statuses = Object.keys(responses);
+      const received = exercised.get(`${method} ${path}`) || new Set<string>();
+      return {
+        method,
+        path,
+        operationId,
+        statuses,
+        exercised: statuses.filter((status) => received.has(status)),
+        missing: statuses.filter((status) => !received.has(status))
+      };
+    });
+
+    const missing = operations.flatMap(({ method, path, operationId, missing: statuses }) =>
+      statuses.map((status) => ({ method, path, operationId, status })));
+    const total = operations.reduce((count, operation) => count + operation.statuses.length, 0);
+
+    return { operations, missing, covered: total - missing.length, total };
+  }
+
+  function report(): string {
+    const { operations, covered, total } = coverage();
+    const percentage = total ? Math.round((covered / total) * 100) : 100;
+    const lines = [`Response coverage: ${covered} of ${total} documented responses received (${percentage}%)`];
+
+    const uncovered = operations.filter((operation) => operation.missing.length > 0);
+    if (uncovered.length > 0) {
+      lines.push('Never received:');
+      uncovered.forEach(({ method, path, operationId, missing }) => {
+        lines.push(`  ${method.toUpperCase()} ${path}${operationId ? ` (${operationId})` : ''}: ${missing.join(', ')}`);
+      });
+    }
+
+    return lines.join('\n');
+  }
+
+  return { request, coverage, report };
+}
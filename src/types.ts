@@ -1,6 +1,51 @@
-import { Request, Response, NextFunction, Application, RequestHandler, ErrorRequestHandler, Router, IRouterMatcher } from 'express';
-import { z, ZodType, ZodObject, ZodTypeAny } from 'zod';
+import {
+  Request,
+  Response,
+  NextFunction,
+  Application,
+  RequestHandler,
+  ErrorRequestHandler,
+  Router,
+  IRoute,
+  IRouterMatcher,
+  IRouterHandler
+} from 'express';
+import { z, ZodType, ZodObject, ZodTypeAny, ZodError } from 'zod';
 import { OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
+import type { ContractDefinition } from './contract';
+import type {
+  HttpMethod,
+  RouteMethod,
+  ResponseObject,
+  ResponsesMap,
+  BodyContentMap,
+  BodySchema,
+  ResponseContentType,
+  RouteSignature,
+  ContractBody,
+  ContractSchema,
+  ContractResponses,
+  ContractRoutes
+} from './route-types';
+
+// Routes, their schemas and the client are typed without Express, for the plus-express/client entry point
+export type {
+  HttpMethod,
+  RouteMethod,
+  ResponseObject,
+  ResponsesMap,
+  BodyContentMap,
+  BodySchema,
+  RouteSignature,
+  ContractRoutes,
+  ApiRoutes,
+  PathParamValues,
+  ClientInput,
+  ClientResponse,
+  ClientMethod,
+  Client,
+  ClientOptions
+} from './route-types';
 
 // Note: ErrorRequestHandler added to support Express error handlers (4-parameter middleware)
 
@@ -11,33 +56,126 @@ import { OpenAPIRegistry } from '@asteasolutions/zod-to-openapi';
 //   }
 // }
 
-// HTTP method types
-export type HttpMethod = 'get' | 'post' | 'put' | 'patch' | 'delete' | 'options' | 'head';
+// Details reported when a response payload does not match its declared schema
+export interface ResponseValidationFailure {
+  method: HttpMethod;
+  path: string;
+  statusCode: number;
+  contentType: string;
+  body: unknown;
+  error: ZodError;
+  req: Request;
+}
+
+// Response validation mode: 'throw' (or true) forwards a 500 error, 'log' warns and sends
+// the payload anyway, and a function receives the failure and lets the payload through
+export type ResponseValidationMode =
+  | boolean
+  | 'throw'
+  | 'log'
+  | ((failure: ResponseValidationFailure) => void);
+
+// A file received in a multipart/form-data body
+export interface UploadedFile {
+  fieldName: string;
+  originalName: string;
+  mimeType: string;
+  size: number;
+  buffer: Buffer;
+}
+
+// Constraints for a file field in a multipart body schema
+export interface FileFieldOptions<TMaxCount extends number = 1> {
+  maxSize?: number; // In bytes
+  mimeTypes?: string[]; // Exact types or wildcards such as 'image/*'
+  maxCount?: TMaxCount; // Fields accepting more than one file are parsed as arrays
+}
+
+// Schema type of a file field: a single file, or an array when more than one is allowed
+export type FileFieldSchema<TMaxCount extends number> =
+  TMaxCount extends 1 ? ZodType<UploadedFile> : ZodType<UploadedFile[]>;
+
+// Limits applied while streaming a multipart body
+export interface MultipartLimits {
+  fileSize?: number;
+  files?: number;
+  fields?: number;
+  fieldSize?: number;
+}
+
+// Part of the request validated by a schema
+export type RequestPart = 'body' | 'params' | 'query' | 'headers' | 'cookies';
 
-// Response definition for a specific status code
-export interface ResponseObject {
-  description: string;
-  content?: Record<string, { schema: ZodType }>;
+// A single validation issue tagged with where in the request it occurred
+export interface ValidationIssue {
+  location: string; // e.g. 'body.email' or 'query.limit'
+  part: RequestPart;
+  path: Array<string | number>;
+  code: string;
+  message: string;
+  keys?: string[]; // Unknown keys rejected in strict mode
+}
+
+// Details passed to validation error formatters and handlers
+export interface ValidationErrorContext {
+  issues: ValidationIssue[]; // Every issue across all request parts
+  parts: RequestPart[]; // The request parts that failed
+  error: ZodError; // All issues combined, with paths prefixed by the request part
+  req: Request;
+}
+
+// Turns a request validation error into a response body
+export interface ValidationErrorFormatter {
+  status?: number; // Defaults to 400
+  description?: string;
+  schema?: ZodType; // Documented as the response for `status` on every route
+  format: (context: ValidationErrorContext) => unknown;
+}
+
+// Takes over request validation errors entirely (send a response or call next)
+export type ValidationErrorHandler = (
+  context: ValidationErrorContext,
+  res: Response,
+  next: NextFunction
+) => void;
+
+// Which parts of the request reject undeclared keys in strict mode
+export interface StrictOptions {
+  query?: boolean; // Defaults to true
+  body?: boolean; // Defaults to true, applies to top-level keys of object body schemas
+  headers?: boolean; // Defaults to false, applies to x- headers only
 }
 
 // Interface for endpoint options
 export interface EndpointOptions<
-  TBody extends ZodType | undefined = undefined,
+  TBody extends BodySchema | undefined = undefined,
   TParams extends ZodObject<any> | undefined = undefined,
   TQuery extends ZodObject<any> | undefined = undefined,
-  THeaders extends ZodObject<any> | undefined = undefined
+  THeaders extends ZodObject<any> | undefined = undefined,
+  TCookies extends ZodObject<any> | undefined = undefined,
+  TResponses extends ResponsesMap | undefined = undefined,
+  TMiddleware extends readonly EndpointMiddleware<any, any>[] | undefined = undefined
 > {
   operationId?: string;
   summary?: string;
   description?: string;
   deprecated?: boolean;
   tags?: string[];
+  security?: Array<Record<string, string[]>>; // Overrides the document's security ([] for none)
   body?: TBody;
   params?: TParams;
   query?: TQuery;
   headers?: THeaders;
-  responses?: Record<string | number, ResponseObject>;
-  path?: string; // Optional path when used as first argument
+  cookies?: TCookies;
+  responses?: TResponses;
+  validateResponses?: ResponseValidationMode; // Overrides the registry-level setting
+  serializeResponses?: boolean; // Overrides the registry-level setting
+  formatValidationError?: ValidationErrorFormatter; // Overrides the registry-level formatter and handler
+  onValidationError?: ValidationErrorHandler; // Overrides the registry-level formatter and handler
+  asyncValidation?: boolean; // Always use parseAsync instead of detecting async schemas
+  strict?: boolean | StrictOptions; // Overrides the registry-level setting
+  middleware?: TMiddleware; // Run in order after validation and before the handlers
+  path?: string | RegExp; // Optional path when used as first argument (RegExp paths are not documented)
 }
 
 // Enhanced request interface with validated data
@@ -45,13 +183,15 @@ export type ValidatedRequest<
   TBody = unknown,
   TParams = unknown,
   TQuery = unknown,
-  THeaders = unknown
+  THeaders = unknown,
+  TCookies = unknown
 > = {
   parsed: {
     body: TBody;
     params: TParams;
     query: TQuery;
     headers: THeaders;
+    cookies: TCookies;
   };
 } & Request;
 
@@ -59,86 +199,342 @@ export type ValidatedRequest<
 export type InferZodType<T extends ZodType | undefined> =
   T extends ZodType ? z.infer<T> : unknown;
 
+// Infer the body type from a schema or from every schema in a content type map
+export type InferBodyType<T extends BodySchema | undefined> =
+  T extends ZodType ? z.infer<T> :
+  T extends BodyContentMap ? z.infer<T[keyof T]> :
+  unknown;
+
+// Status codes declared in a responses map, as numbers
+export type DeclaredStatus<TResponses> = {
+  [K in keyof TResponses]: K extends number ? K : K extends `${infer N extends number}` ? N : never
+}[keyof TResponses];
+
+// Payload type allowed for a status code, falling back to its range and then to `default`
+export type ResponseBodyType<TResponses, TStatus extends number> =
+  TStatus extends keyof TResponses ? ResponseContentType<TResponses[TStatus]> :
+  `${TStatus}` extends keyof TResponses ? ResponseContentType<TResponses[`${TStatus}`]> :
+  `${TStatus}` extends `${infer TClass extends number}${string}` ?
+    `${TClass}XX` extends keyof TResponses ? ResponseContentType<TResponses[`${TClass}XX`]> :
+    'default' extends keyof TResponses ? ResponseContentType<TResponses['default']> :
+    never :
+  never;
+
+// Status codes usable with a responses map: the declared ones, or any with a range or `default`
+export type AllowedStatus<TResponses> =
+  'default' extends keyof TResponses ? number :
+  DeclaredStatus<TResponses> | RangeStatus<TResponses>;
+
+// Any status code within a declared range such as '4XX'
+type RangeStatus<TResponses> =
+  Extract<keyof TResponses, `${number}XX`> extends never ? never : number;
+
+// Express response whose status codes and JSON payloads are checked against the declared responses
+export interface TypedResponse<TResponses, TStatus extends number = 200>
+  extends Omit<Response, 'status' | 'json' | 'sendStatus'> {
+  status<S extends AllowedStatus<TResponses>>(code: S): TypedResponse<TResponses, S>;
+  json(body: ResponseBodyType<TResponses, TStatus>): this;
+  sendStatus(code: AllowedStatus<TResponses>): this;
+}
+
+// Middleware declared in EndpointOptions.middleware, run after validation
+export interface EndpointMiddleware<
+  TProvides extends object = {},
+  THeaders extends ZodObject<any> | undefined = ZodObject<any>
+> {
+  handler: (
+    req: ValidatedRequest<
+      unknown,
+      unknown,
+      unknown,
+      THeaders extends ZodObject<any> ? z.infer<THeaders> : unknown,
+      unknown
+    > & Partial<TProvides>,
+    res: Response,
+    next: NextFunction
+  ) => any;
+  headers?: THeaders; // Request headers it reads, validated and documented on every route using it
+  responses?: ResponsesMap; // Responses it may send (e.g. 401), documented on every route using it
+  readonly __provides?: TProvides; // Type-only: the properties it adds to req
+}
+
+// Properties the declared middleware of a route add to req
+type ProvidedBy<TMiddleware> = TMiddleware extends EndpointMiddleware<infer TProvides, any> ? TProvides : never;
+type UnionToIntersection<T> = (T extends any ? (value: T) => void : never) extends (value: infer I) => void ? I : never;
+export type MiddlewareProvides<TMiddleware extends readonly EndpointMiddleware<any, any>[] | undefined> =
+  TMiddleware extends readonly EndpointMiddleware<any, any>[]
+    ? [ProvidedBy<TMiddleware[number]>] extends [never] ? unknown : UnionToIntersection<ProvidedBy<TMiddleware[number]>>
+    : unknown;
+
 // Define a handler function type that uses the validated request
 export type TypedExpressHandler<
-  TBody extends ZodType | undefined = undefined,
+  TBody extends BodySchema | undefined = undefined,
   TParams extends ZodObject<any> | undefined = undefined,
   TQuery extends ZodObject<any> | undefined = undefined,
-  THeaders extends ZodObject<any> | undefined = undefined
+  THeaders extends ZodObject<any> | undefined = undefined,
+  TCookies extends ZodObject<any> | undefined = undefined,
+  TResponses extends ResponsesMap | undefined = undefined,
+  TMiddleware extends readonly EndpointMiddleware<any, any>[] | undefined = undefined
 > = (
   req: ValidatedRequest<
-    TBody extends ZodType ? z.infer<TBody> : unknown,
+    InferBodyType<TBody>,
     TParams extends ZodObject<any> ? z.infer<TParams> : unknown,
     TQuery extends ZodObject<any> ? z.infer<TQuery> : unknown,
-    THeaders extends ZodObject<any> ? z.infer<THeaders> : unknown
-  >,
-  res: Response,
+    THeaders extends ZodObject<any> ? z.infer<THeaders> : unknown,
+    TCookies extends ZodObject<any> ? z.infer<TCookies> : unknown
+  > & MiddlewareProvides<TMiddleware>,
+  res: TResponses extends ResponsesMap ? TypedResponse<TResponses> : Response,
   next: NextFunction
 ) => any;
 
+// Params schema seen by handlers of a router mounted at a parameterized path
+export type MergeMountParams<
+  TParams extends ZodObject<any> | undefined,
+  TMountParams extends ZodObject<any> | undefined
+> = TMountParams extends ZodObject<any>
+  ? TParams extends ZodObject<any> ? ZodObject<Omit<TMountParams['shape'], keyof TParams['shape']> & TParams['shape']> : TMountParams
+  : TParams;
+
+// Join a mount path and a route path as Express does
+export type JoinPaths<TMountPath extends string, TPath extends string> =
+  TMountPath extends '' | '/' ? TPath :
+  TPath extends '/' ? TMountPath :
+  TMountPath extends `${infer THead}/` ? `${THead}${TPath}` :
+  `${TMountPath}${TPath}`;
+
+// Routes of a router as seen from the app or router it is mounted on
+export type MountRoutes<TMountPath extends string, TRoutes> =
+  TRoutes extends RouteSignature<any, infer TPath, any, any, any, any, any, any>
+    ? TPath extends string ? Omit<TRoutes, 'path'> & { path: JoinPaths<TMountPath, TPath> } : never
+    : never;
+
+// Types returned by augmented methods, by target, once the routes registered so far are known
+export interface AugmentedTargets<TMountParams extends ZodObject<any> | undefined, TRoutes> {
+  app: ExpressPlusApplication<TRoutes>;
+  router: RouterPlus<TMountParams, TRoutes>;
+}
+
 // Augmented method type with proper generics for type inference
-export type AugmentedMethod<T> = ((name: string) => any) &
-  IRouterMatcher<T> & {
+// Each call returns the app or router with the registered route added to its type
+export type AugmentedMethod<
+  TTarget extends keyof AugmentedTargets<any, any>,
+  TMethod extends RouteMethod,
+  TMountParams extends ZodObject<any> | undefined = undefined,
+  TRoutes = never
+> = ((name: string) => any) &
+  IRouterMatcher<AugmentedTargets<TMountParams, TRoutes>[TTarget]> & {
     <
-      TBody extends ZodType | undefined = undefined,
+      TBody extends BodySchema | undefined = undefined,
       TParams extends ZodObject<any> | undefined = undefined,
       TQuery extends ZodObject<any> | undefined = undefined,
-      THeaders extends ZodObject<any> | undefined = undefined
+      THeaders extends ZodObject<any> | undefined = undefined,
+      TCookies extends ZodObject<any> | undefined = undefined,
+      TResponses extends ResponsesMap | undefined = undefined,
+      TMiddleware extends readonly EndpointMiddleware<any, any>[] | undefined = undefined,
+      TPath extends string | RegExp = string,
+      TOperationId extends string | undefined = undefined
     > (
-      options: EndpointOptions<TBody, TParams, TQuery, THeaders>,
-      ...handlers: TypedExpressHandler<TBody, TParams, TQuery, THeaders>[]
-    ): T;
+      options: EndpointOptions<TBody, TParams, TQuery, THeaders, TCookies, TResponses, TMiddleware> &
+        { path?: TPath; operationId?: TOperationId },
+      ...handlers: TypedExpressHandler<
+        TBody, MergeMountParams<TParams, TMountParams>, TQuery, THeaders, TCookies, TResponses, TMiddleware
+      >[]
+    ): AugmentedTargets<TMountParams, TRoutes | RouteSignature<
+      TMethod, TPath, TOperationId, TBody, MergeMountParams<TParams, TMountParams>, TQuery, THeaders, TResponses
+    >>[TTarget];
 
     <
-      TBody extends ZodType | undefined = undefined,
+      TBody extends BodySchema | undefined = undefined,
       TParams extends ZodObject<any> | undefined = undefined,
       TQuery extends ZodObject<any> | undefined = undefined,
-      THeaders extends ZodObject<any> | undefined = undefined
+      THeaders extends ZodObject<any> | undefined = undefined,
+      TCookies extends ZodObject<any> | undefined = undefined,
+      TResponses extends ResponsesMap | undefined = undefined,
+      TMiddleware extends readonly EndpointMiddleware<any, any>[] | undefined = undefined,
+      TPath extends string | RegExp = string,
+      TOperationId extends string | undefined = undefined
     > (
-      path: string,
-      options: EndpointOptions<TBody, TParams, TQuery, THeaders>,
-      ...handlers: TypedExpressHandler<TBody, TParams, TQuery, THeaders>[]
+      path: TPath,
+      options: EndpointOptions<TBody, TParams, TQuery, THeaders, TCookies, TResponses, TMiddleware> &
+        { operationId?: TOperationId },
+      ...handlers: TypedExpressHandler<
+        TBody, MergeMountParams<TParams, TMountParams>, TQuery, THeaders, TCookies, TResponses, TMiddleware
+      >[]
+    ): AugmentedTargets<TMountParams, TRoutes | RouteSignature<
+      TMethod, TPath, TOperationId, TBody, MergeMountParams<TParams, TMountParams>, TQuery, THeaders, TResponses
+    >>[TTarget];
+  };
+
+// Method of a route returned by route(path), accepting options without a path
+export type AugmentedRouteMethod<T, TMountParams extends ZodObject<any> | undefined = undefined> =
+  IRouterHandler<T> & {
+    <
+      TBody extends BodySchema | undefined = undefined,
+      TParams extends ZodObject<any> | undefined = undefined,
+      TQuery extends ZodObject<any> | undefined = undefined,
+      THeaders extends ZodObject<any> | undefined = undefined,
+      TCookies extends ZodObject<any> | undefined = undefined,
+      TResponses extends ResponsesMap | undefined = undefined,
+      TMiddleware extends readonly EndpointMiddleware<any, any>[] | undefined = undefined
+    > (
+      options: Omit<EndpointOptions<TBody, TParams, TQuery, THeaders, TCookies, TResponses, TMiddleware>, 'path'>,
+      ...handlers: TypedExpressHandler<
+        TBody, MergeMountParams<TParams, TMountParams>, TQuery, THeaders, TCookies, TResponses, TMiddleware
+      >[]
     ): T;
   };
 
+// Route returned by route(path) on an enhanced app or router
+export interface RoutePlus<TMountParams extends ZodObject<any> | undefined = undefined>
+  extends Omit<IRoute, 'all' | 'get' | 'post' | 'put' | 'delete' | 'patch' | 'options' | 'head'> {
+  all: AugmentedRouteMethod<RoutePlus<TMountParams>, TMountParams>;
+  get: AugmentedRouteMethod<RoutePlus<TMountParams>, TMountParams>;
+  post: AugmentedRouteMethod<RoutePlus<TMountParams>, TMountParams>;
+  put: AugmentedRouteMethod<RoutePlus<TMountParams>, TMountParams>;
+  delete: AugmentedRouteMethod<RoutePlus<TMountParams>, TMountParams>;
+  patch: AugmentedRouteMethod<RoutePlus<TMountParams>, TMountParams>;
+  options: AugmentedRouteMethod<RoutePlus<TMountParams>, TMountParams>;
+  head: AugmentedRouteMethod<RoutePlus<TMountParams>, TMountParams>;
+}
+
 // Extended application interface with augmented methods
-export interface ExpressPlusApplication extends Omit<Application, 'get' | 'post' | 'put' | 'delete' | 'patch' | 'options' | 'head' | 'use'> {
-  get: AugmentedMethod<Application>;
-  post: AugmentedMethod<Application>;
-  put: AugmentedMethod<Application>;
-  delete: AugmentedMethod<Application>;
-  patch: AugmentedMethod<Application>;
-  options: AugmentedMethod<Application>;
-  head: AugmentedMethod<Application>;
+// TRoutes collects the routes registered through chained calls, for createClient
+export interface ExpressPlusApplication<TRoutes = any>
+  extends Omit<Application, 'all' | 'get' | 'post' | 'put' | 'delete' | 'patch' | 'options' | 'head' | 'use' | 'route'> {
+  all: AugmentedMethod<'app', 'all', undefined, TRoutes>;
+  get: AugmentedMethod<'app', 'get', undefined, TRoutes>;
+  post: AugmentedMethod<'app', 'post', undefined, TRoutes>;
+  put: AugmentedMethod<'app', 'put', undefined, TRoutes>;
+  delete: AugmentedMethod<'app', 'delete', undefined, TRoutes>;
+  patch: AugmentedMethod<'app', 'patch', undefined, TRoutes>;
+  options: AugmentedMethod<'app', 'options', undefined, TRoutes>;
+  head: AugmentedMethod<'app', 'head', undefined, TRoutes>;
+  route(path: string): RoutePlus;
+
+  // Register handlers for an operation of the document given as `spec`, validated by its schemas
+  implement<TMiddleware extends readonly EndpointMiddleware<any, any>[] | undefined = undefined>(
+    operationId: string,
+    options: SpecImplementOptions<TMiddleware>,
+    ...handlers: TypedExpressHandler<
+      BodySchema, ZodObject<any>, ZodObject<any>, ZodObject<any>, ZodObject<any>, undefined, TMiddleware
+    >[]
+  ): ExpressPlusApplication<TRoutes>;
+  implement(
+    operationId: string,
+    ...handlers: TypedExpressHandler<BodySchema, ZodObject<any>, ZodObject<any>, ZodObject<any>, ZodObject<any>>[]
+  ): ExpressPlusApplication<TRoutes>;
   
-  // Extended use() overloads to support RouterPlus instances
-  use(router: RouterPlus): ExpressPlusApplication;
-  use(path: string, router: RouterPlus): ExpressPlusApplication;
-  use(...handlers: Array<RequestHandler | ErrorRequestHandler | RouterPlus | Router>): ExpressPlusApplication;
-  use(path: string, ...handlers: Array<RequestHandler | ErrorRequestHandler | RouterPlus | Router>): ExpressPlusApplication;
+  // Extended use() overloads to support RouterPlus instances (their routes are added to the type)
+  use<TRouterRoutes>(router: RouterPlus<any, TRouterRoutes>): ExpressPlusApplication<TRoutes | MountRoutes<'/', TRouterRoutes>>;
+  use<TMountPath extends string, TRouterRoutes>(
+    path: TMountPath,
+    router: RouterPlus<any, TRouterRoutes>
+  ): ExpressPlusApplication<TRoutes | MountRoutes<TMountPath, TRouterRoutes>>;
+  use(...handlers: Array<RequestHandler | ErrorRequestHandler | RouterPlus<any, any> | Router>): ExpressPlusApplication<TRoutes>;
+  use(path: string, ...handlers: Array<RequestHandler | ErrorRequestHandler | RouterPlus<any, any> | Router>): ExpressPlusApplication<TRoutes>;
+
+  readonly __routes?: TRoutes; // Type-only: the routes registered so far
 }
 
 // Extended router interface with augmented methods
-export interface RouterPlus extends Omit<Router, 'get' | 'post' | 'put' | 'delete' | 'patch' | 'options' | 'head' | 'use'> {
-  get: AugmentedMethod<Router>;
-  post: AugmentedMethod<Router>;
-  put: AugmentedMethod<Router>;
-  delete: AugmentedMethod<Router>;
-  patch: AugmentedMethod<Router>;
-  options: AugmentedMethod<Router>;
-  head: AugmentedMethod<Router>;
+// TRoutes collects the routes registered through chained calls, for createClient
+export interface RouterPlus<TMountParams extends ZodObject<any> | undefined = undefined, TRoutes = any>
+  extends Omit<Router, 'all' | 'get' | 'post' | 'put' | 'delete' | 'patch' | 'options' | 'head' | 'use' | 'route'> {
+  all: AugmentedMethod<'router', 'all', TMountParams, TRoutes>;
+  get: AugmentedMethod<'router', 'get', TMountParams, TRoutes>;
+  post: AugmentedMethod<'router', 'post', TMountParams, TRoutes>;
+  put: AugmentedMethod<'router', 'put', TMountParams, TRoutes>;
+  delete: AugmentedMethod<'router', 'delete', TMountParams, TRoutes>;
+  patch: AugmentedMethod<'router', 'patch', TMountParams, TRoutes>;
+  options: AugmentedMethod<'router', 'options', TMountParams, TRoutes>;
+  head: AugmentedMethod<'router', 'head', TMountParams, TRoutes>;
+  route(path: string): RoutePlus<TMountParams>;
   
-  // Extended use() overloads to support RouterPlus instances for nested routing
-  use(router: RouterPlus): RouterPlus;
-  use(path: string, router: RouterPlus): RouterPlus;
-  use(...handlers: Array<RequestHandler | ErrorRequestHandler | RouterPlus | Router>): RouterPlus;
-  use(path: string, ...handlers: Array<RequestHandler | ErrorRequestHandler | RouterPlus | Router>): RouterPlus;
+  // Extended use() overloads to support RouterPlus instances for nested routing (their routes are added to the type)
+  use<TRouterRoutes>(router: RouterPlus<any, TRouterRoutes>): RouterPlus<TMountParams, TRoutes | MountRoutes<'/', TRouterRoutes>>;
+  use<TMountPath extends string, TRouterRoutes>(
+    path: TMountPath,
+    router: RouterPlus<any, TRouterRoutes>
+  ): RouterPlus<TMountParams, TRoutes | MountRoutes<TMountPath, TRouterRoutes>>;
+  use(...handlers: Array<RequestHandler | ErrorRequestHandler | RouterPlus<any, any> | Router>): RouterPlus<TMountParams, TRoutes>;
+  use(path: string, ...handlers: Array<RequestHandler | ErrorRequestHandler | RouterPlus<any, any> | Router>): RouterPlus<TMountParams, TRoutes>;
+
+  // Register a handler for every endpoint of a contract (a missing handler is a type error)
+  implement<
+    TContract extends ContractDefinition,
+    TMiddleware extends readonly EndpointMiddleware<any, any>[] | undefined = undefined
+  >(
+    contract: TContract,
+    handlers: ContractHandlers<TContract, TMountParams, TMiddleware>,
+    options?: SpecImplementOptions<TMiddleware>
+  ): RouterPlus<TMountParams, TRoutes | ContractRoutes<TContract>>;
   
   // Custom properties for internal tracking
   _isRouterPlus?: boolean;
   _registry?: any;
+  readonly __routes?: TRoutes; // Type-only: the routes registered so far
+}
+
+// Options for documenting a webhook (only emitted in OpenAPI 3.1 documents)
+export interface WebhookOptions {
+  method?: HttpMethod; // Defaults to 'post'
+  operationId?: string;
+  summary?: string;
+  description?: string;
+  deprecated?: boolean;
+  tags?: string[];
+  body?: BodySchema;
+  headers?: ZodObject<any>;
+  responses?: ResponsesMap;
 }
 
+// An operation of a spec-first document, converted into endpoint options
+export interface SpecOperation {
+  operationId: string;
+  method: HttpMethod;
+  path: string; // The OpenAPI path, e.g. /users/{id}
+  expressPath: string; // The same path in Express syntax, e.g. /users/:id
+  options: EndpointOptions<any, any, any, any, any, any, any>;
+}
+
+// Endpoint options that can be added when implementing an operation (the schemas come from the document or contract)
+export type SpecImplementOptions<
+  TMiddleware extends readonly EndpointMiddleware<any, any>[] | undefined = undefined
+> = Pick<
+  EndpointOptions<undefined, undefined, undefined, undefined, undefined, undefined, TMiddleware>,
+  'validateResponses' | 'serializeResponses' | 'formatValidationError' | 'onValidationError' |
+  'asyncValidation' | 'strict' | 'middleware'
+>;
+
+// Contracts are declared without Express types, for the plus-express/contract entry point
+export type { ContractDefinition, ContractEndpoint, ContractMethod } from './contract';
+
+// Handler of a contract endpoint, typed by its schemas
+export type ContractHandler<
+  TEndpoint,
+  TMountParams extends ZodObject<any> | undefined = undefined,
+  TMiddleware extends readonly EndpointMiddleware<any, any>[] | undefined = undefined
+> = TypedExpressHandler<
+  ContractBody<TEndpoint>,
+  MergeMountParams<ContractSchema<TEndpoint, 'params'>, TMountParams>,
+  ContractSchema<TEndpoint, 'query'>,
+  ContractSchema<TEndpoint, 'headers'>,
+  ContractSchema<TEndpoint, 'cookies'>,
+  ContractResponses<TEndpoint>,
+  TMiddleware
+>;
+
+// A handler (or handlers, run in order) for every endpoint of a contract
+export type ContractHandlers<
+  TContract extends ContractDefinition,
+  TMountParams extends ZodObject<any> | undefined = undefined,
+  TMiddleware extends readonly EndpointMiddleware<any, any>[] | undefined = undefined
+> = {
+  [K in keyof TContract]:
+    | ContractHandler<TContract[K], TMountParams, TMiddleware>
+    | readonly ContractHandler<TContract[K], TMountParams, TMiddleware>[];
+};
+
 export type OpenAPIConfig = {
   openapi: string;
   info: {
@@ -154,50 +550,154 @@ export type OpenAPIConfig = {
 };
 
 // API initialization options
-export interface ApiOptions {
+export interface ApiOptions<TMountParams extends ZodObject<any> | undefined = ZodObject<any> | undefined> {
   defaultQuerySchema?: ZodObject<any>;
   defaultHeaderSchema?: ZodObject<any>;
+  defaultCookieSchema?: ZodObject<any>;
   defaultResponses?: Record<string | number, ResponseObject>;
+  validateResponses?: ResponseValidationMode;
+  serializeResponses?: boolean;
+  formatValidationError?: ValidationErrorFormatter;
+  onValidationError?: ValidationErrorHandler;
+  asyncValidation?: boolean;
+  strict?: boolean | StrictOptions;
+  mountParams?: TMountParams; // Routers only: params of the path the router is mounted at
+  spec?: Record<string, any> | string; // Apps only: an OpenAPI 3.x document (parsed, or JSON text) to implement
+  mock?: boolean | MockOptions; // Serve every route with generated data instead of its handlers
+  onWarning?: (message: string) => void; // Told about routes that cannot be documented or implemented; defaults to console.warn
   openApiConfig?: OpenAPIConfig;
 }
 
+// Options for mock responses
+export interface MockOptions {
+  seed?: number; // Seed of the generated data (the same seed gives the same data for a request)
+}
+
+// Options for the router serving the OpenAPI document
+export interface DocsRouterOptions {
+  jsonPath?: string; // Defaults to '/openapi.json'
+  yamlPath?: string; // Defaults to '/openapi.yaml'
+  htmlPath?: string; // Defaults to '/'
+  ui?: 'swagger-ui' | 'redoc' | false; // Defaults to 'swagger-ui', false disables the HTML page
+  title?: string; // Defaults to the document's info.title
+  assets?: {
+    scripts?: string[]; // Replace the CDN scripts, e.g. with locally hosted copies
+    stylesheets?: string[];
+  };
+  config?: Partial<OpenAPIConfig>; // Passed to generateOpenAPIDocument()
+}
+
 // Registry return type with builder methods
 export interface Registry {
   // Core methods
   createEndpoint: <
-    TBody extends ZodType = ZodType,
+    TBody extends BodySchema = BodySchema,
     TParams extends ZodObject<any> = ZodObject<any>,
     TQuery extends ZodObject<any> = ZodObject<any>,
-    THeaders extends ZodObject<any> = ZodObject<any>
+    THeaders extends ZodObject<any> = ZodObject<any>,
+    TCookies extends ZodObject<any> = ZodObject<any>,
+    TResponses extends ResponsesMap = ResponsesMap,
+    TMiddleware extends readonly EndpointMiddleware<any, any>[] = readonly EndpointMiddleware<any, any>[]
   >(
-    method: HttpMethod,
-    path: string,
-    options?: EndpointOptions<TBody, TParams, TQuery, THeaders>
+    method: RouteMethod,
+    path: string | RegExp,
+    options?: EndpointOptions<TBody, TParams, TQuery, THeaders, TCookies, TResponses, TMiddleware>
   ) => RequestHandler;
   
   // OpenAPI Document Generation
-  generateOpenAPIDocument: (config?: Partial<OpenAPIConfig>) => any;
+  generateOpenAPIDocument: (config?: Partial<OpenAPIConfig>) => any; // Cached until getRevision() changes
+  getDefinitions: () => OpenAPIRegistry['definitions']; // Including routes of mounted routers
+  getRevision: () => number; // Changes whenever routes, mounts or configuration change
+  docsRouter: (options?: DocsRouterOptions) => Router;
+  mock: (options?: MockOptions) => Router; // Serves every documented route with generated data
   
   // Configuration methods (chainable)
+  setOpenApiVersion: (version: string) => Registry;
   setInfo: (info: { title: string; version: string; description?: string }) => Registry;
   addServer: (server: { url: string; description?: string }) => Registry;
   setDefaultQuerySchema: (schema: ZodObject<any>) => Registry;
   setDefaultHeaderSchema: (schema: ZodObject<any>) => Registry;
+  setDefaultCookieSchema: (schema: ZodObject<any>) => Registry;
   setDefaultResponses: (responses: Record<string | number, ResponseObject>) => Registry;
+  setMountParams: (schema: ZodObject<any>) => Registry;
+  getMountParams: () => ZodObject<any> | undefined;
+  setMockOptions: (options: MockOptions) => Registry;
+  getMockOptions: () => MockOptions | undefined;
   registerSecurityScheme: (name: string, scheme: any) => Registry;
+  registerWebhook: (name: string, webhook?: WebhookOptions) => Registry;
+
+  // Spec-first documents
+  getOperation: (operationId: string) => SpecOperation | undefined;
+  getUnimplementedOperations: () => Array<Pick<SpecOperation, 'operationId' | 'method' | 'path'>>;
   
   // Access to raw registry
   getRawRegistry: () => OpenAPIRegistry;
 }
 
+// A request made by testApi
+export interface TestApiRequest {
+  query?: Record<string, unknown>; // Arrays are sent as repeated keys
+  headers?: Record<string, string>;
+  body?: unknown; // Strings and buffers are sent as-is, anything else as JSON
+}
+
+// A response checked by testApi against the document
+export interface TestApiResponse {
+  status: number;
+  headers: Headers;
+  body: unknown; // Parsed for JSON content types, text otherwise
+  operation: { method: HttpMethod; path: string; operationId?: string }; // The documented operation it matched
+}
+
+// Documented statuses of an operation, and those the tests received
+export interface OperationCoverage {
+  method: HttpMethod;
+  path: string; // OpenAPI path
+  operationId?: string;
+  statuses: string[]; // Documented response keys (codes, ranges such as 4XX, or default)
+  exercised: string[];
+  missing: string[];
+}
+
+// Coverage of the documented responses by the requests made so far
+export interface ApiCoverage {
+  operations: OperationCoverage[];
+  missing: Array<{ method: HttpMethod; path: string; operationId?: string; status: string }>;
+  covered: number; // Documented responses received at least once
+  total: number;
+}
+
+// Contract-testing helper returned by testApi
+export interface TestApi {
+  request: (method: HttpMethod, path: string, input?: TestApiRequest) => Promise<TestApiResponse>;
+  coverage: () => ApiCoverage;
+  report: () => string; // The coverage as text, listing the responses never received
+}
+
+// A change between two OpenAPI documents
+export interface DocumentChange {
+  code: string; // e.g. 'operation-removed' or 'enum-narrowed'
+  breaking: boolean; // Whether clients of the old document may fail
+  operation?: string; // e.g. 'GET /users/{id}'
+  location?: string; // e.g. 'query parameter limit' or 'response 200 application/json'
+  path?: string; // Within the schema, e.g. 'items[].name'
+  message: string;
+}
+
+// Changes between two OpenAPI documents, split by whether they break clients
+export interface DocumentDiff {
+  breaking: DocumentChange[];
+  nonBreaking: DocumentChange[];
+}
+
 // Function return type for expressPlus (simplified)
 export interface ExpressPlusReturn {
-  app: ExpressPlusApplication;
+  app: ExpressPlusApplication<never>;
   registry: Registry;
 }
 
 // Function return type for routerPlus (simplified)
-export interface RouterPlusReturn {
-  router: RouterPlus;
+export interface RouterPlusReturn<TMountParams extends ZodObject<any> | undefined = undefined> {
+  router: RouterPlus<TMountParams, never>;
   registry: Registry;
 }
\ No newline at end of file
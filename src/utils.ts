@@ -1,5 +1,37 @@
-import { Router, Application, RequestHandler } from 'express';
-import { HttpMethod, EndpointOptions } from './types';
+import { Router, Application, RequestHandler, Request, Response, NextFunction } from 'express';
+import { z, ZodObject, ZodType } from 'zod';
+import { getOpenApiPaths, getPathParams, getVariantOperationId, OpenApiPathVariant, PathParam } from './paths';
+import { RouteMethod, EndpointMiddleware, EndpointOptions, SpecOperation, ContractDefinition, MockOptions } from './types';
+
+/**
+ * Respond 501 for routes defined without handlers (outside mock mode, where they are never reached)
+ */
+function notImplemented(req: Request, res: Response, next: NextFunction): void {
+  const err: any = new Error('Not Implemented');
+  err.status = 501;
+  next(err);
+}
+
+/**
+ * List the handlers of a route: validation, then the declared middleware, then the route's own
+ *
+ * @param validationMiddleware The middleware created for the endpoint
+ * @param options The endpoint options
+ * @param handlers The route's own handlers (routes may be defined before they are implemented)
+ * @returns The handlers, in order
+ */
+export function getEndpointHandlers(
+  validationMiddleware: RequestHandler,
+  options: EndpointOptions<any, any, any, any, any, any, any>,
+  handlers: any[]
+): RequestHandler[] {
+  const middleware: EndpointMiddleware<any, any>[] = options.middleware || [];
+  return [
+    validationMiddleware,
+    ...middleware.map(({ handler }) => handler as RequestHandler),
+    ...(handlers.length > 0 ? handlers : [notImplemented])
+  ];
+}
 
 /**
  * Enhances HTTP methods on an Express application or Router with typed validation and OpenAPI documentation
@@ -10,8 +42,8 @@ import { HttpMethod, EndpointOptions } from './types';
  */
 export function enhanceHttpMethods(
   target: Application | Router,
-  methods: readonly HttpMethod[],
-  createEndpoint: (method: HttpMethod, path: string, options?: EndpointOptions<any>) => RequestHandler
+  methods: readonly RouteMethod[],
+  createEndpoint: (method: RouteMethod, path: string | RegExp, options?: EndpointOptions<any>) => RequestHandler
 ): void {
   methods.forEach((method) => {
     const originalMethod = target[method];
@@ -19,9 +51,9 @@ export function enhanceHttpMethods(
     // Replace the method with our enhanced version
     (target as any)[method] = function(...args: any[]) {
       // Case 1: When first arg is an options object (options-only pattern)
-      if (args.length > 1 && typeof args[0] === 'object' && args[0] !== null &&
+      if (args.length > 0 && typeof args[0] === 'object' && args[0] !== null &&
           !Array.isArray(args[0]) && !(args[0] instanceof RegExp)) {
-        const [opts, handler, ...rest] = args;
+        const [opts, ...handlers] = args;
 
         if (!opts.path) {
           throw new Error(`Path is required when using options as first argument for ${method}`);
@@ -29,18 +61,18 @@ export function enhanceHttpMethods(
 
         const validationMiddleware = createEndpoint(method, opts.path, opts);
 
-        return (originalMethod as any).call(target, opts.path, validationMiddleware, handler, ...rest);
+        return (originalMethod as any).call(target, opts.path, ...getEndpointHandlers(validationMiddleware, opts, handlers));
       }
 
-      // Case 2: When first arg is string and second is options object (path + options pattern)
-      if (args.length > 2 && typeof args[0] === 'string' &&
+      // Case 2: When first arg is a string or RegExp and second is options object (path + options pattern)
+      if (args.length > 1 && (typeof args[0] === 'string' || args[0] instanceof RegExp) &&
           typeof args[1] === 'object' && args[1] !== null &&
           !Array.isArray(args[1]) && !(args[1] instanceof RegExp)) {
-        const [path, opts, handler, ...rest] = args;
+        const [path, opts, ...handlers] = args;
 
         const validationMiddleware = createEndpoint(method, path, opts);
 
-        return (originalMethod as any).call(target, path, validationMiddleware, handler, ...rest);
+        return (originalMethod as any).call(target, path, ...getEndpointHandlers(validationMiddleware, opts, handlers));
       }
 
       // Default behavior for any other pattern
@@ -49,12 +81,155 @@ export function enhanceHttpMethods(
   });
 }
 
+/**
+ * Enhances the routes returned by route(path) so their methods accept endpoint options
+ *
+ * @param target The Express app or Router to enhance
+ * @param methods Route methods to enhance
+ * @param createEndpoint Function to create validation middleware
+ */
+export function enhanceRoutes(
+  target: Application | Router,
+  methods: readonly RouteMethod[],
+  createEndpoint: (method: RouteMethod, path: string | RegExp, options?: EndpointOptions<any>) => RequestHandler
+): void {
+  const originalRoute = target.route;
+
+  (target as any).route = function(path: string) {
+    const route = (originalRoute as any).call(target, path);
+
+    methods.forEach((method) => {
+      const originalMethod = route[method];
+
+      route[method] = function(...args: any[]) {
+        // Options first, the path comes from route(path)
+        if (args.length > 0 && typeof args[0] === 'object' && args[0] !== null &&
+            !Array.isArray(args[0]) && !(args[0] instanceof RegExp)) {
+          const [opts, ...handlers] = args;
+
+          const validationMiddleware = createEndpoint(method, path, opts);
+
+          return originalMethod.call(route, ...getEndpointHandlers(validationMiddleware, opts, handlers));
+        }
+
+        return originalMethod.apply(route, args);
+      };
+    });
+
+    return route;
+  };
+}
+
+/**
+ * Adds implement(operationId, ...) to an app, registering handlers for an operation of the spec-first document
+ *
+ * The operation's method, path and schemas come from the document; options given before the
+ * handlers (e.g. middleware or strict) are added to them.
+ *
+ * @param target The Express app to enhance
+ * @param getOperation Function to look up an operation of the document
+ * @throws Error from implement() when the operationId is not in the document
+ */
+export function enhanceImplement(
+  target: Application,
+  getOperation: (operationId: string) => SpecOperation | undefined
+): void {
+  (target as any).implement = function(operationId: string, ...args: any[]) {
+    const operation = getOperation(operationId);
+    if (!operation) {
+      throw new Error(`Cannot implement ${operationId}: no operation has this operationId in the OpenAPI document`);
+    }
+
+    const hasOptions = typeof args[0] === 'object' && args[0] !== null && !Array.isArray(args[0]);
+    const [overrides, handlers] = hasOptions ? [args[0], args.slice(1)] : [{}, args];
+
+    return (target as any)[operation.method](
+      { ...operation.options, ...overrides, path: operation.expressPath },
+      ...handlers
+    );
+  };
+}
+
+/**
+ * Adds implement(contract, handlers) to a router, registering a route for every endpoint of a contract
+ *
+ * @param target The Express router to enhance
+ * @throws Error from implement() when a handler is missing or names no endpoint of the contract
+ */
+export function enhanceContractImplement(target: Router): void {
+  (target as any).implement = function(contract: ContractDefinition, handlers: Record<string, any>, options: any = {}) {
+    const unknown = Object.keys(handlers).filter((name) => !Object.prototype.hasOwnProperty.call(contract, name));
+    if (unknown.length > 0) {
+      throw new Error(`Cannot implement ${unknown.join(', ')}: not in the contract`);
+    }
+
+    const missing = Object.keys(contract).filter((name) => !handlers[name]);
+    if (missing.length > 0) {
+      throw new Error(`Missing handlers for ${missing.join(', ')}`);
+    }
+
+    Object.entries(contract).forEach(([name, endpoint]) => {
+      const { method, ...endpointOptions } = endpoint;
+      const endpointHandlers = Array.isArray(handlers[name]) ? handlers[name] : [handlers[name]];
+
+      (target as any)[method](
+        { operationId: name, ...endpointOptions, ...options },
+        ...endpointHandlers
+      );
+    });
+
+    return target;
+  };
+}
+
+/**
+ * Parse a Cookie request header into name/value pairs
+ *
+ * Values are URI-decoded when possible and surrounding quotes are removed.
+ * When a name appears more than once, the first value wins.
+ *
+ * @param header The raw Cookie header
+ * @returns The cookies by name
+ */
+export function parseCookieHeader(header: string | undefined): Record<string, string> {
+  const cookies: Record<string, string> = {};
+  if (!header) {
+    return cookies;
+  }
+
+  header.split(';').forEach((pair) => {
+    const index = pair.indexOf('=');
+    if (index === -1) {
+      return;
+    }
+
+    const name = pair.slice(0, index).trim();
+    if (!name || name === '__proto__' || Object.prototype.hasOwnProperty.call(cookies, name)) {
+      return;
+    }
+
+    let value = pair.slice(index + 1).trim();
+    if (value.length >= 2 && value.startsWith('"') && value.endsWith('"')) {
+      value = value.slice(1, -1);
+    }
+
+    try {
+      cookies[name] = decodeURIComponent(value);
+    } catch {
+      cookies[name] = value;
+    }
+  });
+
+  return cookies;
+}
+
 /**
  * Interface for tracking mount path information
  */
 export interface MountInfo {
   path: string;
   registry: any;
+  router?: any;
 }
 
 /**
@@ -74,78 +249,215 @@ export function normalizeMountPath(mountPath: string): string {
   return normalizedPath;
 }
 
+// Mount params schemas inferred from paths, which are replaced when the mount tree changes
+const inferredMountParams = new WeakSet<ZodObject<any>>();
+
 /**
- * Combines multiple OpenAPI registries based on mount points
+ * Create the schema of a param inferred from a path
  *
- * @param baseRegistry The base registry to combine others into
- * @param mountRegistry Array of mount information
- * @returns The combined registry
+ * Express 5 passes wildcard values as arrays of segments.
  */
-export function combineRegistries(baseRegistry: any, mountRegistry: MountInfo[]): any {
-  // For each mounted registry, add its definitions to the base registry
-  // with paths adjusted to include the mount path
+function inferParamSchema(param: PathParam): ZodType {
+  const schema = param.wildcard ? z.array(z.string()) : z.string();
+  return param.optional ? schema.optional() : schema;
+}
+
+/**
+ * Prepare a RouterPlus mounted at a parameterized path (e.g. /orgs/:orgId)
+ *
+ * The router's routes can only see the parent params when they are merged, so merging
+ * is enabled for the router and every router nested in it. Without a declared mount params
+ * schema, one is inferred from the paths above the router with every param as a string.
+ *
+ * @param router The mounted RouterPlus
+ * @param mountPath Normalized mount path
+ * @param parentParams Schemas of the params of the paths above the mount point
+ * @param onWarning Told about mount paths that cannot be documented
+ */
+export function enableMountParams(
+  router: any,
+  mountPath: string,
+  parentParams: Record<string, ZodType> = {},
+  onWarning: (message: string) => void = console.warn
+): void {
+  const shape = { ...parentParams };
+
+  try {
+    getPathParams(mountPath).forEach((param) => {
+      shape[param.name] = shape[param.name] || inferParamSchema(param);
+    });
+    // Warn once, when mounting, about mount paths the documentation has to skip
+    getOpenApiPaths(mountPath);
+  } catch (error: any) {
+    onWarning(`Cannot document routes mounted at ${mountPath} in OpenAPI: ${error.message}`);
+  }
+
+  if (Object.keys(shape).length === 0) {
+    return;
+  }
 
-  // Get all definitions from the base registry
-  const baseDefinitions = baseRegistry.definitions;
+  router.mergeParams = true;
+
+  const registry = router._registry;
+  const declared = registry.getMountParams();
+  if (!declared || inferredMountParams.has(declared)) {
+    const inferred = z.object(shape);
+    inferredMountParams.add(inferred);
+    registry.setMountParams(inferred);
+  }
+
+  // Routers mounted inside this one before it was mounted see the same params
+  const mountParams = registry.getMountParams();
+  (router._nestedMountRegistry || []).forEach((mount: MountInfo) => {
+    enableMountParams(mount.router, mount.path, mountParams.shape, onWarning);
+  });
+}
+
+/**
+ * Mock the routes of a RouterPlus mounted on a mocked app or router
+ *
+ * Routers with mock options of their own keep them. Routers mounted inside this one
+ * before it was mounted are mocked as well.
+ *
+ * @param router The mounted RouterPlus
+ * @param options Mock options of the app or router it is mounted on
+ */
+export function enableMockMode(router: any, options: MockOptions): void {
+  const registry = router._registry;
+  if (!registry.getMockOptions()) {
+    registry.setMockOptions(options);
+  }
+
+  (router._nestedMountRegistry || []).forEach((mount: MountInfo) => {
+    enableMockMode(mount.router, registry.getMockOptions());
+  });
+}
+
+/**
+ * Join a mount path and a route path without doubling slashes
+ *
+ * @param mountPath Normalized mount path
+ * @param routePath Route path relative to the mount point
+ * @returns The full path
+ */
+export function joinMountPath(mountPath: string, routePath: string): string {
+  const relativePath = routePath.startsWith('/') ? routePath.substring(1) : routePath;
+  if (mountPath === '/') {
+    return `/${relativePath}`;
+  }
+  // A router's root route is documented at the mount path itself
+  return relativePath ? `${mountPath}/${relativePath}` : mountPath;
+}
+
+/**
+ * Check whether a non-route definition is already documented
+ */
+function hasDefinition(definitions: any[], def: any): boolean {
+  return definitions.some((existing) => {
+    if (existing === def) {
+      return true;
+    }
+    if (existing.type !== def.type) {
+      return false;
+    }
+    if (def.type === 'component') {
+      return existing.componentType === def.componentType && existing.name === def.name;
+    }
+    if (def.type === 'webhook') {
+      return existing.webhook.method === def.webhook.method && existing.webhook.path === def.webhook.path;
+    }
+    return existing.schema !== undefined && existing.schema === def.schema;
+  });
+}
+
+/**
+ * Select the params of a mount params schema that appear in a mount path
+ *
+ * Params of paths further up are documented when the parent router is combined.
+ */
+function pickMountParams(schema: ZodObject<any> | undefined, names: string[]): ZodObject<any> | undefined {
+  if (!schema) {
+    return undefined;
+  }
+
+  const present = names.filter((name) => name in schema.shape);
+  if (present.length === 0) {
+    return undefined;
+  }
+  return schema.pick(Object.fromEntries(present.map((name) => [name, true as const])));
+}
+
+/**
+ * Combines a registry's definitions with those of the routers mounted on it
+ *
+ * Mounted registries report their own nested mounts through getDefinitions(), so the whole
+ * mount tree is walked with paths concatenated at each level. Neither side is modified.
+ * Non-route definitions (schemas, components, webhooks) are carried through, with the
+ * outer registry winning when a name is defined twice.
+ *
+ * @param baseDefinitions The definitions of the registry the routers are mounted on
+ * @param mountRegistry Array of mount information
+ * @returns The combined definitions
+ */
+export function combineRegistries(baseDefinitions: any[], mountRegistry: MountInfo[]): any[] {
+  const definitions = [...baseDefinitions];
 
-  // Process each mounted registry
   mountRegistry.forEach(({ path, registry }) => {
-    // Skip if the registry is not valid
-    if (!registry || !registry.definitions) {
+    if (!registry || !registry.getDefinitions) {
       return;
     }
 
-    // Root path special case
-    if (path === '/') {
-      // Just merge the definitions directly
-      registry.definitions.forEach((def: any) => {
-        if (!baseDefinitions.some((baseDef: any) =>
-            baseDef.type === def.type &&
-            (def.name ? baseDef.name === def.name :
-            JSON.stringify(baseDef.schema) === JSON.stringify(def.schema)))) {
-          baseDefinitions.push(def);
-        }
-      });
+    // Optional groups in the mount path document every route once per variant
+    let mountPaths: OpenApiPathVariant[];
+    try {
+      mountPaths = getOpenApiPaths(path);
+    } catch {
+      // Already reported when the router was mounted
       return;
     }
 
-    // For each definition in the mounted registry
-    registry.definitions.forEach((def: any) => {
-      // If it's a route definition, adjust the path
-      if (def.type === 'route') {
-        // Create a deep copy of the definition
-        const adjustedDef = JSON.parse(JSON.stringify(def));
-
-        // Combine the mount path with the route path
-        // Ensure no double slashes
-        let routePath = def.route.path;
-        if (routePath.startsWith('/')) {
-          routePath = routePath.substring(1);
-        }
+    const declaredMountParams = registry.getMountParams && registry.getMountParams();
 
-        // Normalize the path combining
-        const normalizedPath = path === '/' ? `/${routePath}` : `${path}/${routePath}`;
+    registry.getDefinitions().forEach((def: any) => {
+      if (def.type === 'route') {
+        const request = def.route.request || {};
 
-        adjustedDef.route.path = normalizedPath;
+        mountPaths.forEach((mountPath, index) => {
+          // Params of the mount path are documented on every route of the mounted router
+          const mountParams = pickMountParams(declaredMountParams, mountPath.params);
+          const params = mountParams && request.params ? mountParams.merge(request.params) : mountParams || request.params;
 
-        // Add to base registry if not already there
-        if (!baseDefinitions.some((baseDef: any) =>
-            baseDef.type === 'route' &&
-            baseDef.route.path === adjustedDef.route.path &&
-            baseDef.route.method === adjustedDef.route.method)) {
-          baseDefinitions.push(adjustedDef);
-        }
-      } else {
-        // For non-path definitions (schemas, responses, etc.), add directly if not exists
-        if (!baseDefinitions.some((baseDef: any) =>
-            baseDef.type === def.type &&
-            (def.name ? baseDef.name === def.name :
-            JSON.stringify(baseDef.schema) === JSON.stringify(def.schema)))) {
-          baseDefinitions.push(def);
-        }
+          definitions.push({
+            ...def,
+            route: {
+              ...def.route,
+              path: joinMountPath(mountPath.path, def.route.path),
+              operationId: getVariantOperationId(def.route.operationId, index),
+              request: { ...request, params }
+            }
+          });
+        });
+      } else if (!hasDefinition(definitions, def)) {
+        definitions.push(def);
       }
     });
   });
 
-  return baseRegistry;
-}
\ No newline at end of file
+  return definitions;
+}
+
+/**
+ * Combine a registry's revision with those of the routers mounted on it
+ *
+ * Revisions only increase, so the sum changes whenever any registry in the tree does.
+ *
+ * @param revision The revision of the registry the routers are mounted on
+ * @param mountRegistry Array of mount information
+ * @returns A revision covering the whole mount tree
+ */
+export function combineRevisions(revision: number, mountRegistry: MountInfo[]): number {
+  return mountRegistry.reduce(
+    (total, { registry }) => total + (registry && registry.getRevision ? registry.getRevision() : 0),
+    revision + mountRegistry.length
+  );
+}
@@ -0,0 +1,123 @@
+import { Request } from 'express';
+import { z, ZodError, ZodObject } from 'zod';
+import { BodyContentMap, RequestPart, StrictOptions, ValidationIssue } from './types';
+
+// Order in which request parts are validated and reported
+export const REQUEST_PARTS: readonly RequestPart[] = ['body', 'params', 'query', 'headers', 'cookies'];
+
+/**
+ * Flatten per-part Zod errors into issues tagged with their location (e.g. `body.email`)
+ *
+ * @param errors Zod errors keyed by the request part that failed
+ * @returns Every issue, in request part order
+ */
+export function collectValidationIssues(errors: Partial<Record<RequestPart, ZodError>>): ValidationIssue[] {
+  const issues: ValidationIssue[] = [];
+
+  REQUEST_PARTS.forEach((part) => {
+    const error = errors[part];
+    if (!error) {
+      return;
+    }
+
+    error.issues.forEach((issue) => {
+      const path = issue.path.map((key) => (typeof key === 'symbol' ? key.toString() : key));
+
+      issues.push({
+        location: [part, ...path].join('.'),
+        part,
+        path,
+        code: issue.code,
+        message: issue.message,
+        ...(issue.code === 'unrecognized_keys' ? { keys: issue.keys } : {})
+      });
+    });
+  });
+
+  return issues;
+}
+
+/**
+ * Combine per-part Zod errors into one ZodError whose issue paths start with the part
+ *
+ * @param errors Zod errors keyed by the request part that failed
+ * @returns A single ZodError covering the whole request
+ */
+export function combineValidationErrors(errors: Partial<Record<RequestPart, ZodError>>): ZodError {
+  const issues: ZodError['issues'] = [];
+
+  REQUEST_PARTS.forEach((part) => {
+    const error = errors[part];
+    if (!error) {
+      return;
+    }
+
+    error.issues.forEach((issue) => {
+      issues.push({ ...issue, path: [part, ...issue.path] });
+    });
+  });
+
+  return new ZodError(issues);
+}
+
+/**
+ * Pick the declared body content type matching the request's Content-Type
+ *
+ * Requests without a Content-Type are validated against the first declared schema,
+ * so a missing body is reported as a validation issue rather than a media type error.
+ *
+ * @param req The current request
+ * @param content Body schemas keyed by content type
+ * @returns The matching key of `content`, or undefined when the content type is not declared
+ */
+export function selectBodyContentType(req: Request, content: BodyContentMap): string | undefined {
+  const contentTypes = Object.keys(content);
+
+  if (!req.headers['content-type']) {
+    return contentTypes[0];
+  }
+
+  return contentTypes.find((contentType) => req.is(contentType));
+}
+
+/**
+ * Resolve the strict option into the request parts that reject undeclared keys
+ *
+ * @param strict `true` for query and body, or an object choosing parts (query and body default to true)
+ * @returns Whether each part is strict
+ */
+export function resolveStrictOptions(strict: boolean | StrictOptions | undefined): Required<StrictOptions> {
+  if (!strict) {
+    return { query: false, body: false, headers: false };
+  }
+  if (strict === true) {
+    return { query: true, body: true, headers: false };
+  }
+  return {
+    query: strict.query !== false,
+    body: strict.body !== false,
+    headers: strict.headers === true
+  };
+}
+
+/**
+ * Create a header schema that also rejects x- headers it does not declare
+ *
+ * Other headers (host, accept, ...) are always sent by clients and proxies, so only
+ * the x- namespace is checked.
+ *
+ * @param schema The merged header schema
+ * @returns A schema reporting unknown x- headers alongside its other issues
+ */
+export function createStrictHeaderSchema(schema: ZodObject<any>) {
+  const declared = new Set(Object.keys(schema.shape));
+
+  return z.preprocess((headers) => {
+    if (typeof headers !== 'object' || headers === null) {
+      return headers;
+    }
+    return Object.fromEntries(
+      Object.entries(headers).filter(([name]) => declared.has(name) || name.startsWith('x-'))
+    );
+  }, schema.strict());
+}
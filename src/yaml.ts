@@ -0,0 +1,114 @@
+/**
+ * Minimal YAML serializer for JSON-compatible values such as OpenAPI documents
+ *
+ * Collections are written in block style and strings are quoted (as JSON strings, which
+ * are valid YAML) whenever a plain scalar could be misread.
+ */
+
+// Plain scalars YAML 1.1 or 1.2 parsers would read as something other than a string: booleans,
+// nulls, numbers (including binary and sexagesimal ones such as 1:30) and timestamps
+const RESERVED_SCALAR = /^(?:true|false|yes|no|on|off|y|n|null|~|[-+]?(?:\d[\d_]*)?(?:\.\d*)?(?:[eE][-+]?\d+)?|[-+]?\.(?:inf|nan)|0x[0-9a-f_]+|0o[0-7_]+|0b[01_]+|[-+]?\d[\d_]*(?::[0-5]?\d)+(?:\.\d*)?|\d{4}-\d\d?-\d\d?(?:(?:t|[ \t]+)\d\d?:\d\d:\d\d(?:\.\d*)?(?:[ \t]*(?:z|[-+]\d\d?(?::\d\d)?))?)?)$/i;
+
+// Characters that cannot start a plain scalar
+const INDICATOR_START = /^[-?:,[\]{}#&*!|>'"%@`\s]/;
+
+/**
+ * Check whether a value is written on the same line as its key
+ */
+function isInline(value: unknown): boolean {
+  if (Array.isArray(value)) {
+    return value.length === 0;
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.keys(value).every((key) => (value as Record<string, unknown>)[key] === undefined);
+  }
+  return true;
+}
+
+/**
+ * Write a string as a plain scalar when safe, otherwise double-quoted
+ */
+function renderString(value: string): string {
+  const needsQuotes = value === '' ||
+    RESERVED_SCALAR.test(value) ||
+    INDICATOR_START.test(value) ||
+    /\s$/.test(value) ||
+    /: |:$| #/.test(value) ||
+    // eslint-disable-next-line no-control-regex
+    /[\u0000-\u001f\u007f-\u009f\u2028\u2029]/.test(value);
+
+  return needsQuotes ? JSON.stringify(value) : value;
+}
+
+/**
+ * Write a scalar or an empty collection
+ */
+function renderInline(value: unknown): string {
+  if (Array.isArray(value)) {
+    return '[]';
+  }
+  if (value === null || value === undefined) {
+    return 'null';
+  }
+  if (typeof value === 'object') {
+    return '{}';
+  }
+  if (typeof value === 'number') {
+    return Number.isFinite(value) ? String(value) : 'null';
+  }
+  if (typeof value === 'boolean') {
+    return String(value);
+  }
+  return renderString(String(value));
+}
+
+/**
+ * Write a non-empty collection as indented block lines
+ */
+function renderBlock(value: unknown, indent: number): string[] {
+  const pad = ' '.repeat(indent);
+  const lines: string[] = [];
+
+  if (Array.isArray(value)) {
+    value.forEach((item) => {
+      if (isInline(item)) {
+        lines.push(`${pad}- ${renderInline(item)}`);
+        return;
+      }
+
+      // Nested collections start on the same line as their dash
+      const itemLines = renderBlock(item, indent + 2);
+      itemLines[0] = `${pad}- ${itemLines[0].slice(indent + 2)}`;
+      lines.push(...itemLines);
+    });
+    return lines;
+  }
+
+  Object.entries(value as Record<string, unknown>).forEach(([key, item]) => {
+    if (item === undefined) {
+      return;
+    }
+
+    const renderedKey = renderString(key);
+    if (isInline(item)) {
+      lines.push(`${pad}${renderedKey}: ${renderInline(item)}`);
+      return;
+    }
+
+    lines.push(`${pad}${renderedKey}:`, ...renderBlock(item, indent + 2));
+  });
+  return lines;
+}
+
+/**
+ * Serialize a JSON-compatible value to YAML
+ *
+ * @param value The value to serialize
+ * @returns The YAML text, ending with a newline
+ */
+export function toYAML(value: unknown): string {
+  if (isInline(value)) {
+    return `${renderInline(value)}\n`;
+  }
+  return `${renderBlock(value, 0).join('\n')}\n`;
+}